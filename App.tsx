@@ -1,26 +1,78 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import JSZip from 'jszip';
-import { AppStatus, Article, LogEntry, ScrapeConfig } from './types';
+import { AppStatus, Article, EditionPage, LogEntry, PageScan, ProfileConfig, ScrapeConfig, ScrapeJob } from './types';
 import { DEFAULT_CONFIG } from './constants';
 import { ConfigPanel } from './components/ConfigPanel';
 import { ArticleList } from './components/ArticleList';
-import { generateDateRange, formatUrl, fetchUrl, extractArticleLinks, parseArticleContent, extractPageNavLinks } from './services/scraperService';
-import { cleanContentWithGemini } from './services/geminiService';
-import { PlayIcon, PauseIcon, DownloadIcon, MagicWandIcon } from './components/Icons';
-import { RateLimiter } from './services/antibot';
+import { ProfileManager } from './components/ProfileManager';
+import { DuplicateNotice } from './components/DuplicateNotice';
+import { SearchFilters } from './components/SearchFilters';
+import { HighlightedText } from './components/HighlightedText';
+import { ExportMenu, ExportFormat } from './components/ExportMenu';
+import { CleanupControls } from './components/CleanupControls';
+import { EnrichmentPanel } from './components/EnrichmentPanel';
+import { PromptPreview } from './components/PromptPreview';
+import { TranslationPanel } from './components/TranslationPanel';
+import { generateDateRange } from './services/scraperService';
+import { cleanContent } from './services/aiCleanup';
+import { LlmProvider, createLlmProvider, llmSettingsFromConfig } from './services/llmProvider';
+import { resolveApiKey } from './services/apiKeyStore';
+import { AiTask, CleanupQueue, CleanupProgress, cleanupSettingsFromConfig, settledCleanStatus, settledEnrichStatus, settledTranslateStatus } from './services/cleanupQueue';
+import { enrichContent, enrichmentTerms } from './services/aiEnrichment';
+import { translateContent } from './services/aiTranslation';
+import { buildTranslationExport } from './services/translationExport';
+import { PlayIcon, PauseIcon, MagicWandIcon } from './components/Icons';
+import { ScrapeEngine, createJob, insertInOrder, compareArticles, jobPages } from './services/scrapeEngine';
+import { saveJob, loadResumableJob, deleteJob } from './services/jobStore';
+import { buildMarkdownExport, collectAssetFiles, groupArticlesByDate, renderArticleMarkdown } from './services/exportService';
+import { saveAsset, loadAsset } from './services/assetStore';
+import { expandContinuations } from './services/continuations';
+import { buildEpub, paperNameFromConfig } from './services/epubExport';
+import { buildDatasetExport, DATASET_SCHEMA_VERSION } from './services/datasetExport';
+import { buildObsidianExport } from './services/obsidianExport';
+import { buildSqliteDatabase, readSqliteDatabase } from './services/sqliteExport';
+import { loadSqlJs } from './services/sqlJs';
+import { loadFingerprints, saveFingerprint, clearFingerprints } from './services/fingerprintStore';
+import { downloadBlob } from './services/download';
+import { SearchIndex, ArticleFilters, EMPTY_FILTERS, searchArticles, hasActiveFilters } from './services/searchIndex';
+import { loadProfiles, loadActiveProfileId } from './services/profileStore';
+
+const AI_TASK_NAMES: { [task in AiTask]: string } = { clean: 'cleanup', enrich: 'enrichment', translate: 'translation' };
+
+/**
+ * Markdown of an article after AI cleanup: the cleaned body with the same title, date/page line and photos as the raw one
+ */
+const cleanedMarkdown = (article: Article, cleanMd: string): string => {
+  return renderArticleMarkdown({ ...article, content: cleanMd });
+};
 
 function App() {
   const [status, setStatus] = useState<AppStatus>(AppStatus.IDLE);
-  const [config, setConfig] = useState<ScrapeConfig>(DEFAULT_CONFIG);
+  const [config, setConfig] = useState<ScrapeConfig>(() => {
+    // Start from the last selected site profile
+    const profile = loadProfiles().find(p => p.id === loadActiveProfileId());
+    return profile ? { ...DEFAULT_CONFIG, ...profile.config } : DEFAULT_CONFIG;
+  });
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [articles, setArticles] = useState<Article[]>([]);
+  const [pageScans, setPageScans] = useState<PageScan[]>([]);
+  const [pages, setPages] = useState<EditionPage[]>([]);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [filters, setFilters] = useState<ArticleFilters>(EMPTY_FILTERS);
   const [selectedArticleId, setSelectedArticleId] = useState<string | null>(null);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [cleanup, setCleanup] = useState<CleanupProgress | null>(null);
+  const [showPromptPreview, setShowPromptPreview] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [resumableJob, setResumableJob] = useState<ScrapeJob | null>(null);
 
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const engineRef = useRef<ScrapeEngine | null>(null);
+  const jobRef = useRef<ScrapeJob | null>(null); // Job whose articles are listed; AI results are saved into it
+  const cleanupQueueRef = useRef<CleanupQueue | null>(null);
+  const aiRunRef = useRef<{ provider: LlmProvider; maxChunkChars?: number; template?: string; language?: string } | null>(null); // Settings of the latest AI request
   const logsEndRef = useRef<HTMLDivElement>(null);
-  const rateLimiterRef = useRef<RateLimiter | null>(null);
+  const databaseInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-scroll logs
   useEffect(() => {
@@ -29,349 +81,430 @@ function App() {
     }
   }, [logs]);
 
+  // Offer to resume a job left unfinished by a reload or crash
+  useEffect(() => {
+    loadResumableJob()
+      .then((job) => {
+        if (job) setResumableJob(job);
+      })
+      .catch((err) => console.warn('Failed to load saved jobs', err));
+  }, []);
+
   const addLog = (message: string, type: LogEntry['type'] = 'info') => {
     setLogs((prev) => [...prev, { id: uuidv4(), timestamp: new Date(), message, type }]);
   };
 
+  // One AI queue for the session; results are applied to whatever articles are loaded
+  useEffect(() => {
+    const queue = new CleanupQueue({
+      clean: (article, signal, waitForSlot) => {
+        const { provider, maxChunkChars, template } = aiRunRef.current!;
+        return cleanContent(provider, article, { maxChunkChars, template, signal, beforeNextChunk: waitForSlot });
+      },
+      enrich: (article, signal) => enrichContent(aiRunRef.current!.provider, article.content, article.title, signal),
+      translate: (article, signal, waitForSlot) => {
+        const { provider, maxChunkChars, language } = aiRunRef.current!;
+        return translateContent(provider, article, { language, maxChunkChars, signal, beforeNextChunk: waitForSlot });
+      },
+    });
+    cleanupQueueRef.current = queue;
+
+    // Update the listed article; with toJob also the job's copy, which is saved when save is set.
+    // Results are followed right away by their settled status, so saving on that covers both.
+    const updateArticle = (id: string, update: (article: Article) => Partial<Article>, toJob: boolean, save = false) => {
+      setArticles(prev => prev.map(a => a.id === id ? { ...a, ...update(a) } : a));
+      const job = jobRef.current;
+      const index = job && toJob ? job.articles.findIndex(a => a.id === id) : -1;
+      if (!job || index < 0) return;
+      job.articles[index] = { ...job.articles[index], ...update(job.articles[index]) };
+      if (save) saveJob(job).catch((err) => console.warn('Failed to save AI results to the job', err));
+    };
+
+    queue.on('log', ({ message, type }) => addLog(message, type));
+    queue.on('progress', setCleanup);
+    queue.on('statusChanged', (change) => {
+      const update: Partial<Article> = change.task === 'clean'
+        ? { cleanStatus: change.status, cleanError: change.error }
+        : change.task === 'enrich'
+          ? { enrichStatus: change.status, enrichError: change.error }
+          : { translateStatus: change.status, translateError: change.error };
+      // Queued and running statuses stay out of the job record
+      const settled = change.task === 'clean'
+        ? settledCleanStatus(change.status)
+        : change.task === 'enrich'
+          ? settledEnrichStatus(change.status)
+          : settledTranslateStatus(change.status);
+      const isSettled = settled === change.status;
+      updateArticle(change.id, () => update, isSettled, isSettled);
+    });
+    queue.on('articleCleaned', ({ id, markdown, warning }) => {
+      updateArticle(id, a => ({ markdown: cleanedMarkdown(a, markdown), cleanWarning: warning }), true);
+    });
+    queue.on('articleEnriched', ({ id, result }) => {
+      updateArticle(id, () => ({ enrichment: result.enrichment, enrichWarning: result.warning }), true);
+    });
+    queue.on('articleTranslated', ({ id, result }) => {
+      updateArticle(id, () => ({ translation: result.translation }), true);
+    });
+
+    return () => queue.cancel();
+  }, []);
+
   const handleConfigChange = (key: keyof ScrapeConfig, value: any) => {
     setConfig((prev) => ({ ...prev, [key]: value }));
   };
 
-  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-  // Random delay to avoid detection as bot
-  const randomDelay = (min?: number, max?: number) => {
-    const minMs = min || config.minDelay || 2000;
-    const maxMs = max || config.maxDelay || 6000;
-    const randomMs = Math.floor(Math.random() * (maxMs - minMs + 1)) + minMs;
-    addLog(`⏱️ Waiting ${(randomMs / 1000).toFixed(1)}s...`, 'info');
-    return delay(randomMs);
-  };
-
-  // Fetch with retry mechanism
-  const fetchWithRetry = async (url: string, retries = 0): Promise<Document> => {
-    const maxRetries = config.maxRetries || 3;
-    try {
-      return await fetchUrl(url, {
-        useProxy: config.useProxy,
-        randomizeUserAgent: config.enableRandomUserAgent,
-        randomizeHeaders: config.randomizeHeaders,
-      });
-    } catch (error: any) {
-      if (retries < maxRetries) {
-        const retryNum = retries + 1;
-        addLog(`❌ Fetch failed (attempt ${retryNum}/${maxRetries + 1}): ${error.message}`, 'warning');
-        addLog(`⏳ Waiting ${config.retryDelay || 10000}ms before retry...`, 'warning');
-        await delay(config.retryDelay || 10000);
-        return fetchWithRetry(url, retryNum);
-      } else {
-        addLog(`❌ Fetch failed after ${maxRetries + 1} attempts: ${url}`, 'error');
-        throw error;
-      }
-    }
+  const applyProfile = (profileConfig: ProfileConfig) => {
+    setConfig((prev) => ({ ...prev, ...profileConfig }));
   };
 
-  const startScraping = useCallback(async () => {
+  const runJob = useCallback(async (job: ScrapeJob) => {
     if (status === AppStatus.RUNNING) return;
 
     setStatus(AppStatus.RUNNING);
-    setProgress(0);
+    setResumableJob(null);
+    jobRef.current = job;
+    setProgress((job.completedDates.length / job.dates.length) * 100);
     setLogs([]);
-    setArticles([]);
-    abortControllerRef.current = new AbortController();
-
-    // Initialize Rate Limiter if enabled
-    if (config.enableRateLimiting) {
-      rateLimiterRef.current = new RateLimiter(
-        config.batchSize || 3,
-        config.cooldownMinutes || 15,
-        config.dailyArticleLimit || 0
-      );
-      addLog(`🛡️ Rate limiting enabled: ${config.batchSize} dates per batch, ${config.cooldownMinutes}min cooldown`, 'info');
-    } else {
-      rateLimiterRef.current = null;
+    setArticles([...job.articles]);
+    setPageScans(Object.values(job.pageScans || {}));
+    setPages(jobPages(job));
+
+    const engine = new ScrapeEngine(job, {
+      checkpoint: saveJob,
+      saveAsset: ({ url, data, contentType }) => saveAsset({ url, data, contentType }),
+      fingerprints: { load: loadFingerprints, save: saveFingerprint },
+    });
+    engineRef.current = engine;
+
+    engine.on('log', ({ message, type }) => addLog(message, type));
+    engine.on('articleExtracted', ({ article }) => setArticles((prev) => insertInOrder(prev, article)));
+    engine.on('pageDiscovered', () => setPages(jobPages(job)));
+    engine.on('pageScanned', ({ scan }) => setPageScans((prev) => [...prev, scan]));
+    engine.on('continuationsMerged', ({ date, articles: merged }) => {
+      setArticles((prev) => [...prev.filter(a => a.date !== date), ...merged].sort(compareArticles));
+    });
+    engine.on('dateCompleted', ({ completed, total }) => setProgress((completed / total) * 100));
+
+    engine.on('completed', ({ reason }) => {
+      if (reason !== 'finished') setResumableJob(job);
+      if (reason === 'finished' || reason === 'incomplete' || reason === 'dailyLimit') setStatus(AppStatus.COMPLETED);
+      else if (reason === 'error') setStatus(AppStatus.ERROR);
+      // 'aborted': stopScraping already switched to PAUSED
+    });
+
+    await engine.run();
+    engineRef.current = null;
+  }, [status]);
+
+  const startScraping = () => {
+    const dates = generateDateRange(config.startDate, config.endDate);
+
+    if (dates.length === 0) {
+        addLog("Invalid date range selected.", "error");
+        return;
     }
 
-    try {
-      const dates = generateDateRange(config.startDate, config.endDate);
-
-      if (dates.length === 0) {
-          addLog("Invalid date range selected.", "error");
-          setStatus(AppStatus.IDLE);
-          return;
-      }
+    // Starting over replaces the unfinished job
+    if (resumableJob) {
+      deleteJob(resumableJob.id).catch((err) => console.warn('Failed to delete previous job', err));
+    }
 
-      addLog(`Queue: ${dates.length} days (${config.startDate} to ${config.endDate})`);
-
-      let processedCount = 0;
-      const totalSteps = dates.length;
-
-      for (const date of dates) {
-        if (abortControllerRef.current?.signal.aborted) break;
-
-        // Check batch limit (rate limiting)
-        if (rateLimiterRef.current) {
-          const batchCheck = rateLimiterRef.current.checkBatchLimit();
-          if (batchCheck.shouldCooldown) {
-            const cooldownMs = (batchCheck.waitMinutes || 0) * 60 * 1000;
-            addLog(`🔒 Batch limit reached. Cooling down for ${batchCheck.waitMinutes} minutes...`, 'warning');
-            addLog(`⏰ Cooldown started at ${new Date().toLocaleTimeString()}`, 'info');
-
-            // Wait for cooldown period
-            await delay(cooldownMs);
-
-            addLog(`✅ Cooldown complete. Resuming at ${new Date().toLocaleTimeString()}`, 'success');
-          }
-        }
-
-        addLog(`=== Processing Date: ${date} ===`, 'info');
-
-        // 1. Fetch the entry page (usually Node 1)
-        const entryUrl = formatUrl(config.baseUrlPattern, date, 1);
-        addLog(`Fetching Entry Page: ${entryUrl}`);
-
-        let pageNodes: string[] = [];
-
-        try {
-            const entryDoc = await fetchWithRetry(entryUrl);
-
-            // 2. Discover all page links (node_*.htm) from the entry page
-            // This grabs the sidebar links "Page 01, Page 02, Page 03..."
-            const discoveredNodes = extractPageNavLinks(entryDoc, entryUrl, config.pageLinkSelector || 'a[href^="node_"]');
-
-            if (discoveredNodes.length > 0) {
-                pageNodes = discoveredNodes;
-                addLog(`Found ${pageNodes.length} pages in edition.`);
-            } else {
-                // Fallback: If no nav links found, maybe it's just a single page or selector failed
-                addLog(`No page navigation links found. Trying just the entry page.`, 'warning');
-                pageNodes = [entryUrl];
-            }
-
-        } catch (err: any) {
-             addLog(`Failed to fetch entry page for ${date}: ${err.message}`, 'error');
-             processedCount++;
-             setProgress((processedCount / totalSteps) * 100);
-             continue; // Skip this date
-        }
-
-        // Random delay after fetching entry page
-        await randomDelay();
-
-        // 3. Iterate through all discovered pages (nodes)
-        // We limit by maxPages just in case the selector grabbed too many junk links
-        const nodesToScan = pageNodes.slice(0, config.maxPages);
-
-        for (let i = 0; i < nodesToScan.length; i++) {
-             const nodeUrl = nodesToScan[i];
-             if (abortControllerRef.current?.signal.aborted) break;
-             
-             addLog(`Scanning Page ${i + 1}/${nodesToScan.length}: ${nodeUrl.split('/').pop()}`);
-
-             try {
-                // We might have already fetched entry page, but fetching again is simpler logic
-                // unless we cache. Given the delay, it's fine.
-                const nodeDoc = await fetchWithRetry(nodeUrl);
-
-                // Get list of articles ({url, title})
-                const articleLinks = extractArticleLinks(nodeDoc, nodeUrl, config.articleLinkSelector);
-
-                if (articleLinks.length === 0) {
-                    addLog(`No articles found on ${nodeUrl}`, 'warning');
-                    // Add delay even when no articles found
-                    await randomDelay();
-                    continue;
-                }
-
-                addLog(`Found ${articleLinks.length} articles on this page.`);
-
-                for (const linkObj of articleLinks) {
-                    if (abortControllerRef.current?.signal.aborted) break;
-
-                    // Check daily article limit
-                    if (rateLimiterRef.current) {
-                      const dailyCheck = rateLimiterRef.current.checkDailyLimit();
-                      if (!dailyCheck.canProceed) {
-                        addLog(`🚫 Daily article limit reached (${config.dailyArticleLimit}). Stopping.`, 'warning');
-                        setStatus(AppStatus.COMPLETED);
-                        return;
-                      }
-                      if (dailyCheck.remaining && dailyCheck.remaining <= 10) {
-                        addLog(`⚠️ Approaching daily limit: ${dailyCheck.remaining} articles remaining`, 'warning');
-                      }
-                    }
-
-                    // Avoid duplicates
-                    if (articles.some(a => a.url === linkObj.url)) continue;
-
-                    // Random delay between articles to avoid bot detection
-                    await randomDelay();
-
-                    try {
-                        const articleDoc = await fetchWithRetry(linkObj.url);
-                        
-                        // Pass the title we found on the index page as a fallback hint
-                        const { title, content } = parseArticleContent(
-                            articleDoc, 
-                            { 
-                                title: config.titleSelector, 
-                                content: config.contentSelector 
-                            },
-                            linkObj.title // <--- Fallback Hint
-                        );
-
-                        if (!content || content.length < 20) {
-                            addLog(`Skipping empty/short content: ${linkObj.url.split('/').pop()}`, 'warning');
-                            continue;
-                        }
-
-                        const pageNum = (i + 1).toString().padStart(2, '0');
-
-                        const newArticle: Article = {
-                        id: uuidv4(),
-                        date,
-                        page: pageNum,
-                        title,
-                        content,
-                        markdown: `# ${title}\n\n**Date:** ${date} | **Page:** ${pageNum}\n\n${content}`,
-                        url: linkObj.url,
-                        status: 'success'
-                        };
-
-                        setArticles((prev) => [...prev, newArticle]);
-
-                        // Mark article as processed for rate limiting
-                        if (rateLimiterRef.current) {
-                          rateLimiterRef.current.markArticleProcessed();
-                        }
-                    } catch (err: any) {
-                        addLog(`Failed to parse article ${linkObj.url}: ${err.message}`, 'error');
-                    }
-                }
-
-             } catch (err: any) {
-                 addLog(`Failed to scan page node ${nodeUrl}: ${err.message}`, 'error');
-             }
-
-             // Extra delay between pages to avoid bot detection
-             if (i < nodesToScan.length - 1) {
-                 addLog(`📄 Page ${i + 1} complete. Waiting before next page...`, 'info');
-                 await delay(config.pageDelay || 5000);
-             }
-        }
-
-        processedCount++;
-        setProgress((processedCount / totalSteps) * 100);
-
-        // Mark date as processed for batch rate limiting
-        if (rateLimiterRef.current) {
-          rateLimiterRef.current.markDateProcessed();
-        }
-      }
+    runJob(createJob(uuidv4(), config, dates));
+  };
 
-      setStatus(AppStatus.COMPLETED);
-      addLog('Job completed!', 'success');
+  const resumeScraping = () => {
+    if (!resumableJob) return;
+    setConfig(resumableJob.config);
+    runJob(resumableJob);
+  };
 
+  const discardJob = async () => {
+    if (!resumableJob) return;
+    try {
+      await deleteJob(resumableJob.id);
     } catch (err: any) {
-      addLog(`Global Error: ${err.message}`, 'error');
-      setStatus(AppStatus.ERROR);
+      addLog(`Failed to discard job: ${err.message}`, 'error');
     }
-  }, [config, status, articles]);
+    // Don't let AI results bring the discarded job back
+    if (jobRef.current?.id === resumableJob.id) jobRef.current = null;
+    setResumableJob(null);
+  };
 
   const stopScraping = () => {
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
+    if (engineRef.current) {
+      engineRef.current.stop();
     }
     setStatus(AppStatus.PAUSED);
     addLog('Scraping stopped by user.', 'warning');
   };
 
-  const optimizeArticle = async (id: string) => {
-    const article = articles.find(a => a.id === id);
-    if (!article) return;
+  const runAiTask = async (selection: Article[], task: AiTask) => {
+    const queue = cleanupQueueRef.current;
+    if (!queue || selection.length === 0) return;
 
-    addLog(`Optimizing "${article.title}" with Gemini...`, 'info');
-    
+    const settings = llmSettingsFromConfig(config, resolveApiKey(config.llmProvider || 'gemini'));
+    if (settings.provider === 'gemini' && !settings.apiKey) {
+      addLog('No Gemini API key: enter one under AI Provider & Cleanup or set VITE_API_KEY', 'error');
+      return;
+    }
     try {
-        const cleanMd = await cleanContentWithGemini(article.content, article.title);
-        const refinedMd = `# ${article.title}\n\n**Date:** ${article.date} | **Page:** ${article.page}\n**Source:** [Link](${article.url})\n\n---\n\n${cleanMd}`;
-        
-        setArticles(prev => prev.map(a => a.id === id ? { ...a, markdown: refinedMd } : a));
-        addLog(`Optimization complete for "${article.title}"`, 'success');
-    } catch (e) {
-        addLog(`Optimization failed: ${e}`, 'error');
+      aiRunRef.current = {
+        provider: await createLlmProvider(settings),
+        maxChunkChars: config.cleanupChunkChars,
+        template: config.cleanupPromptTemplate,
+        language: config.translationLanguage,
+      };
+    } catch (err: any) {
+      addLog(`Failed to load the ${settings.provider} provider: ${err.message}`, 'error');
+      return;
     }
+
+    queue.configure(cleanupSettingsFromConfig(config));
+    const added = queue.enqueue(selection, task);
+    if (added > 0) addLog(`Queued ${added} article(s) for AI ${AI_TASK_NAMES[task]}`, 'info');
+  };
+
+  // Single articles go through the queue too, so they get the same rate limit and retries
+  const optimizeArticle = (id: string) => {
+    const article = articles.find(a => a.id === id);
+    if (article) runAiTask([article], 'clean');
+  };
+
+  const enrichArticle = (id: string) => {
+    const article = articles.find(a => a.id === id);
+    if (article) runAiTask([article], 'enrich');
+  };
+
+  const translateArticle = (id: string) => {
+    const article = articles.find(a => a.id === id);
+    if (article) runAiTask([article], 'translate');
+  };
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
   };
 
   const deleteArticle = (id: string) => {
     setArticles(prev => prev.filter(a => a.id !== id));
     if (selectedArticleId === id) setSelectedArticleId(null);
+    if (checkedIds.has(id)) toggleChecked(id);
   };
 
-  const exportAll = async () => {
-    if (articles.length === 0) {
-      addLog('No articles to export', 'warning');
-      return;
+  const keepDuplicate = (id: string) => {
+    setArticles(prev => prev.map(a => a.id === id ? { ...a, duplicateOf: undefined } : a));
+  };
+
+  const forgetSeenArticles = async () => {
+    if (!window.confirm('Forget all previously seen articles? Future runs will not detect duplicates of them.')) return;
+    try {
+      await clearFingerprints();
+      addLog('Cleared duplicate detection history', 'success');
+    } catch (err: any) {
+      addLog(`Failed to clear history: ${err.message}`, 'error');
     }
+  };
 
+  // Plain Markdown files, an Obsidian vault or translations; all keep images in the date folders
+  const exportMarkdown = async (selection: Article[], format: 'markdown' | 'obsidian' | 'translated' | 'bilingual' = 'markdown') => {
+    // Translation exports leave out untranslated articles
+    const translations = format === 'translated' || format === 'bilingual';
+    const included = translations ? selection.filter(a => a.translation) : selection;
+    if (included.length === 0) {
+      addLog('None of these articles are translated yet', 'warning');
+      return;
+    }
     addLog('Creating ZIP archive...', 'info');
 
     try {
       const zip = new JSZip();
 
-      // Helper function to sanitize filename
-      const sanitizeFilename = (str: string): string => {
-        return str
-          .replace(/[<>:"/\\|?*\x00-\x1F]/g, '_') // Remove illegal characters
-          .replace(/\s+/g, '_') // Replace spaces with underscores
-          .replace(/_{2,}/g, '_') // Remove multiple underscores
-          .substring(0, 100); // Limit length
-      };
+      // Merged continuations can be exported as their original per-page pieces; translations belong to the merged article
+      const exported = config.exportContinuationFragments && !translations ? expandContinuations(selection) : selection;
+      const files = format === 'obsidian' ? buildObsidianExport(exported)
+        : translations ? buildTranslationExport(exported, format)
+        : buildMarkdownExport(exported);
+      files.forEach(file => {
+        zip.file(file.path, file.content);
+      });
 
-      // Group articles by date
-      const articlesByDate: { [date: string]: Article[] } = {};
-      articles.forEach(article => {
-        if (!articlesByDate[article.date]) {
-          articlesByDate[article.date] = [];
-        }
-        articlesByDate[article.date].push(article);
+      // Downloaded images and page scans go into each date's images/ and pages/ folders
+      // A filtered export only takes the scans of pages it has articles from
+      const scans = included === articles ? pageScans : pageScans.filter(scan => included.some(a => (
+        a.date === scan.date && (a.pages || [a.page]).includes(scan.page)
+      )));
+      const assetFiles = await collectAssetFiles(included, loadAsset, scans);
+      assetFiles.forEach(file => {
+        zip.file(file.path, file.content);
       });
+      if (assetFiles.length > 0) {
+        addLog(`Added ${assetFiles.length} images and page files`, 'info');
+      }
 
-      // Create folder for each date and add articles
+      const articlesByDate = groupArticlesByDate(included);
       Object.keys(articlesByDate).sort().forEach(date => {
-        const dateFolder = zip.folder(date);
-        if (!dateFolder) return;
-
-        const articlesForDate = articlesByDate[date];
-        articlesForDate.forEach((article, index) => {
-          const safeTitle = sanitizeFilename(article.title);
-          const filename = `${String(index + 1).padStart(3, '0')}_${safeTitle}.md`;
-          dateFolder.file(filename, article.markdown);
-        });
-
-        addLog(`Added ${articlesForDate.length} articles for ${date}`, 'info');
+        addLog(`Added ${articlesByDate[date].length} articles for ${date}`, 'info');
       });
 
       // Generate ZIP file
       const blob = await zip.generateAsync({ type: 'blob' });
 
       // Download ZIP
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `paper_export_${config.startDate}_to_${config.endDate}.zip`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      addLog(`Successfully exported ${articles.length} articles in ZIP format`, 'success');
+      const name = format === 'obsidian' ? 'vault' : translations ? format : 'export';
+      downloadBlob(blob, `paper_${name}_${config.startDate}_to_${config.endDate}.zip`);
+
+      addLog(`Successfully exported ${included.length} articles in ZIP format`, 'success');
     } catch (error: any) {
       addLog(`Export failed: ${error.message}`, 'error');
     }
   };
 
+  const exportEpub = async (selection: Article[]) => {
+    addLog('Creating EPUB...', 'info');
+
+    try {
+      const exported = config.exportContinuationFragments ? expandContinuations(selection) : selection;
+      const profile = loadProfiles().find(p => p.id === loadActiveProfileId());
+      const data = await buildEpub(exported, loadAsset, { paperName: profile ? profile.name : paperNameFromConfig(config) });
+
+      const dates = exported.map(a => a.date).sort();
+      downloadBlob(
+        new Blob([data as BlobPart], { type: 'application/epub+zip' }),
+        `paper_${dates[0]}_to_${dates[dates.length - 1]}.epub`
+      );
+
+      addLog(`Successfully exported ${exported.length} articles as EPUB`, 'success');
+    } catch (error: any) {
+      addLog(`EPUB export failed: ${error.message}`, 'error');
+    }
+  };
+
+  const exportDataset = async (selection: Article[]) => {
+    addLog('Creating dataset...', 'info');
+
+    try {
+      const zip = new JSZip();
+      const exported = config.exportContinuationFragments ? expandContinuations(selection) : selection;
+      buildDatasetExport(exported).forEach(file => {
+        zip.file(file.path, file.content);
+      });
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      downloadBlob(blob, `paper_dataset_${config.startDate}_to_${config.endDate}.zip`);
+
+      addLog(`Successfully exported ${exported.length} articles as JSONL and CSV (schema v${DATASET_SCHEMA_VERSION})`, 'success');
+    } catch (error: any) {
+      addLog(`Dataset export failed: ${error.message}`, 'error');
+    }
+  };
+
+  const exportSqlite = async (selection: Article[]) => {
+    addLog('Creating SQLite database...', 'info');
+
+    try {
+      const SQL = await loadSqlJs();
+      // Merged continuations keep their fragments in the database, so nothing is expanded here
+      const dates = new Set(selection.map(a => a.date));
+      const data = buildSqliteDatabase(SQL, {
+        articles: selection,
+        pages: pages.filter(p => dates.has(p.date)),
+        pageScans: pageScans.filter(scan => dates.has(scan.date)),
+        config,
+      });
+
+      downloadBlob(
+        new Blob([data as BlobPart], { type: 'application/vnd.sqlite3' }),
+        `paper_${config.startDate}_to_${config.endDate}.sqlite`
+      );
+
+      addLog(`Successfully exported ${selection.length} articles to SQLite`, 'success');
+    } catch (error: any) {
+      addLog(`SQLite export failed: ${error.message}`, 'error');
+    }
+  };
+
+  const openDatabase = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (articles.length > 0 && !window.confirm(`Replace the current ${articles.length} articles with the contents of ${file.name}?`)) return;
+
+    try {
+      const SQL = await loadSqlJs();
+      const collection = readSqliteDatabase(SQL, new Uint8Array(await file.arrayBuffer()));
+
+      jobRef.current = null; // The loaded articles don't belong to a job
+      setArticles(collection.articles);
+      setPages(collection.pages);
+      setPageScans(collection.pageScans);
+      if (collection.config) setConfig({ ...DEFAULT_CONFIG, ...collection.config });
+      setSelectedArticleId(null);
+      setFilters(EMPTY_FILTERS);
+      addLog(`Loaded ${collection.articles.length} articles from ${file.name}`, 'success');
+    } catch (err: any) {
+      addLog(`Failed to open database: ${err.message}`, 'error');
+    }
+  };
+
+  const exportAll = async (selection: Article[], format: ExportFormat) => {
+    if (selection.length === 0) {
+      addLog('No articles to export', 'warning');
+      return;
+    }
+
+    if (format === 'epub') await exportEpub(selection);
+    else if (format === 'dataset') await exportDataset(selection);
+    else if (format === 'sqlite') await exportSqlite(selection);
+    else await exportMarkdown(selection, format);
+  };
+
   const selectedArticle = articles.find(a => a.id === selectedArticleId);
+  const duplicates = articles.filter(a => a.duplicateOf);
+
+  // The index is updated incrementally as articles come in; indexVersion re-runs the search after each sync
+  const searchIndexRef = useRef(new SearchIndex());
+  const [indexVersion, setIndexVersion] = useState(0);
+  useEffect(() => {
+    searchIndexRef.current.sync(articles);
+    setIndexVersion((version) => version + 1);
+  }, [articles]);
+  const filteredArticles = useMemo(
+    () => searchArticles(searchIndexRef.current, articles, filters),
+    [articles, filters, indexVersion]
+  );
+  const filtersActive = hasActiveFilters(filters);
+  // With filters set, exports cover just the filtered articles
+  const exportSelection = filtersActive ? filteredArticles : articles;
+  const listedArticles = showDuplicates ? filteredArticles.filter(a => a.duplicateOf) : filteredArticles;
+  // "Clean all" / "Enrich all" skip articles that are already done or waiting in the queue
+  const uncleanedArticles = listedArticles.filter(a => !a.cleanStatus || a.cleanStatus === 'raw' || a.cleanStatus === 'failed');
+  const unenrichedArticles = listedArticles.filter(a => !a.enrichStatus || a.enrichStatus === 'raw' || a.enrichStatus === 'failed');
+  const untranslatedArticles = listedArticles.filter(a => !a.translateStatus || a.translateStatus === 'raw' || a.translateStatus === 'failed');
+  const pendingArticles: { [task in AiTask]: Article[] } = {
+    clean: uncleanedArticles,
+    enrich: unenrichedArticles,
+    translate: untranslatedArticles,
+  };
+  const checkedArticles = articles.filter(a => checkedIds.has(a.id));
+
+  const pageOptions = useMemo(() => {
+    const labels = new Map<string, string>();
+    articles.forEach(a => {
+      if (!labels.has(a.page)) labels.set(a.page, [a.pageLabel || `Page ${a.page}`, a.section].filter(Boolean).join(' '));
+    });
+    return Array.from(labels.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([page, label]) => ({ page, label }));
+  }, [articles]);
+
+  const enrichmentTermOptions = useMemo(() => {
+    return Array.from(new Set(articles.flatMap(a => enrichmentTerms(a.enrichment)))).sort((a, b) => a.localeCompare(b, 'zh'));
+  }, [articles]);
 
   return (
     <div className="flex flex-col h-screen bg-gray-950 text-gray-200">
@@ -390,20 +523,46 @@ function App() {
                   <PauseIcon /> Stop Scraping
                 </button>
             ) : (
+              <>
+                {resumableJob && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={resumeScraping}
+                      title={`Started ${new Date(resumableJob.createdAt).toLocaleString()}`}
+                      className="flex items-center gap-2 bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded transition-colors font-medium text-sm"
+                    >
+                      <PlayIcon /> Resume Job ({resumableJob.completedDates.length}/{resumableJob.dates.length} days)
+                    </button>
+                    <button
+                      onClick={discardJob}
+                      className="text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
                 <button 
                   onClick={startScraping}
                   className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded transition-colors font-medium text-sm"
                 >
                   <PlayIcon /> Start Scraping
                 </button>
+              </>
             )}
-            <button 
-              onClick={exportAll}
-              disabled={articles.length === 0}
-              className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded border border-gray-700 transition-colors font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            <button
+              onClick={() => databaseInputRef.current?.click()}
+              disabled={status === AppStatus.RUNNING}
+              title="Load a collection exported as SQLite"
+              className="text-sm text-gray-400 hover:text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              <DownloadIcon /> Export MD
+              Open DB
             </button>
+            <input ref={databaseInputRef} type="file" accept=".sqlite,.sqlite3,.db" onChange={openDatabase} className="hidden" />
+            <ExportMenu
+              count={exportSelection.length}
+              filtered={filtersActive}
+              onExport={(format) => exportAll(exportSelection, format)}
+            />
         </div>
       </header>
 
@@ -413,6 +572,13 @@ function App() {
         {/* Left Sidebar: Config & Logs */}
         <aside className="w-96 flex flex-col bg-gray-900 border-r border-gray-800 shrink-0">
           <div className="p-4 overflow-y-auto flex-1">
+            <ProfileManager
+              config={config}
+              onApply={applyProfile}
+              onMessage={addLog}
+              disabled={status === AppStatus.RUNNING}
+            />
+
             <ConfigPanel 
               config={config} 
               onChange={handleConfigChange} 
@@ -452,15 +618,52 @@ function App() {
         {/* Middle: Article List */}
         <div className="w-80 flex flex-col bg-gray-900 border-r border-gray-800 shrink-0">
             <div className="p-3 border-b border-gray-800 bg-gray-900 sticky top-0 z-10">
-                <h2 className="font-semibold text-gray-300 text-sm">Extracted Articles ({articles.length})</h2>
+                <div className="flex justify-between items-center">
+                    <h2 className="font-semibold text-gray-300 text-sm">
+                        {showDuplicates ? `Duplicates (${duplicates.length})` : `Extracted Articles (${articles.length})`}
+                    </h2>
+                    {(duplicates.length > 0 || showDuplicates) && (
+                        <button
+                            onClick={() => setShowDuplicates(!showDuplicates)}
+                            className="text-xs text-yellow-400 hover:text-yellow-300"
+                        >
+                            {showDuplicates ? 'Show all' : `Review ${duplicates.length} duplicate(s)`}
+                        </button>
+                    )}
+                </div>
+                <SearchFilters
+                    filters={filters}
+                    onChange={setFilters}
+                    pages={pageOptions}
+                    terms={enrichmentTermOptions}
+                    matchCount={filteredArticles.length}
+                />
+                <CleanupControls
+                    progress={cleanup}
+                    pendingCounts={{ clean: uncleanedArticles.length, enrich: unenrichedArticles.length, translate: untranslatedArticles.length }}
+                    selectedCount={checkedArticles.length}
+                    onRun={(task, scope) => runAiTask(scope === 'selected' ? checkedArticles : pendingArticles[task], task)}
+                    onSelectAll={() => setCheckedIds(new Set(listedArticles.map(a => a.id)))}
+                    onClearSelection={() => setCheckedIds(new Set())}
+                    onPause={() => cleanupQueueRef.current?.pause()}
+                    onResume={() => cleanupQueueRef.current?.resume()}
+                    onCancel={() => cleanupQueueRef.current?.cancel()}
+                />
+                {showDuplicates && (
+                    <button onClick={forgetSeenArticles} className="text-xs text-gray-500 hover:text-gray-300 mt-1">
+                        Forget previously seen articles
+                    </button>
+                )}
             </div>
             <div className="overflow-y-auto p-3 flex-1">
                 <ArticleList 
-                    articles={articles} 
+                    articles={listedArticles} 
                     onDelete={deleteArticle} 
                     onOptimize={optimizeArticle}
                     selectedId={selectedArticleId}
                     onSelect={setSelectedArticleId}
+                    checkedIds={checkedIds}
+                    onToggleChecked={toggleChecked}
                 />
             </div>
         </div>
@@ -477,17 +680,85 @@ function App() {
             ) : (
                 <div className="flex-1 overflow-y-auto p-8 max-w-4xl mx-auto w-full">
                      <div className="flex justify-between items-center mb-6 border-b border-gray-800 pb-4">
-                        <h2 className="text-2xl font-bold text-white">{selectedArticle.title}</h2>
-                        <button 
-                            onClick={() => optimizeArticle(selectedArticle.id)}
-                            className="text-sm flex items-center gap-2 text-purple-400 hover:text-purple-300 transition-colors"
-                        >
-                            <MagicWandIcon /> Clean with AI
-                        </button>
+                        <div>
+                            <h2 className="text-2xl font-bold text-white">
+                                <HighlightedText text={selectedArticle.title} query={filters.query} />
+                            </h2>
+                            <p className="text-xs text-gray-500 mt-1">
+                                {selectedArticle.date} | {selectedArticle.pageLabel || `Page ${selectedArticle.page}`}
+                                {selectedArticle.section && ` ${selectedArticle.section}`}
+                                {selectedArticle.column && ` | 【${selectedArticle.column}】`}
+                                {selectedArticle.encoding && ` | ${selectedArticle.encoding.toUpperCase()} (${selectedArticle.encodingSource})`}
+                            </p>
+                            {selectedArticle.byline && (
+                                <p className="text-xs text-gray-400 mt-1">
+                                    {selectedArticle.byline}
+                                    {selectedArticle.author && ` · Author: ${selectedArticle.author}`}
+                                    {selectedArticle.location && ` · ${selectedArticle.location}`}
+                                </p>
+                            )}
+                            {selectedArticle.cleanStatus === 'failed' && (
+                                <p className="text-xs text-red-400 mt-1">AI cleanup failed: {selectedArticle.cleanError}</p>
+                            )}
+                            {selectedArticle.cleanWarning && (
+                                <p className="text-xs text-yellow-400 mt-1">Compare with the original: {selectedArticle.cleanWarning}</p>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-4 shrink-0">
+                            <button
+                                onClick={() => setShowPromptPreview(!showPromptPreview)}
+                                className="text-sm text-gray-400 hover:text-gray-200 transition-colors"
+                                title="Show the cleanup prompt for this article without sending it"
+                            >
+                                {showPromptPreview ? 'Hide prompt' : 'Preview prompt'}
+                            </button>
+                            <button
+                                onClick={() => translateArticle(selectedArticle.id)}
+                                disabled={selectedArticle.translateStatus === 'queued' || selectedArticle.translateStatus === 'translating'}
+                                className="text-sm flex items-center gap-2 text-purple-400 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={`Translate into ${config.translationLanguage || 'English'}`}
+                            >
+                                <MagicWandIcon /> {selectedArticle.translateStatus === 'translating' ? 'Translating...' : 'Translate'}
+                            </button>
+                            <button
+                                onClick={() => enrichArticle(selectedArticle.id)}
+                                disabled={selectedArticle.enrichStatus === 'queued' || selectedArticle.enrichStatus === 'enriching'}
+                                className="text-sm flex items-center gap-2 text-purple-400 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Summary, keywords, people, organizations and places"
+                            >
+                                <MagicWandIcon /> {selectedArticle.enrichStatus === 'enriching' ? 'Enriching...' : 'Enrich with AI'}
+                            </button>
+                            <button
+                                onClick={() => optimizeArticle(selectedArticle.id)}
+                                disabled={selectedArticle.cleanStatus === 'queued' || selectedArticle.cleanStatus === 'cleaning'}
+                                className="text-sm flex items-center gap-2 text-purple-400 hover:text-purple-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <MagicWandIcon /> {selectedArticle.cleanStatus === 'cleaning' ? 'Cleaning...' : 'Clean with AI'}
+                            </button>
+                        </div>
                      </div>
+                     {showPromptPreview && (
+                        <PromptPreview
+                            article={selectedArticle}
+                            config={config}
+                            onClose={() => setShowPromptPreview(false)}
+                        />
+                     )}
+                     <EnrichmentPanel
+                        article={selectedArticle}
+                        onSelectTerm={(term) => setFilters({ ...filters, term })}
+                     />
+                     <TranslationPanel article={selectedArticle} />
+                     {selectedArticle.duplicateOf && (
+                        <DuplicateNotice
+                            match={selectedArticle.duplicateOf}
+                            onKeep={() => keepDuplicate(selectedArticle.id)}
+                            onRemove={() => deleteArticle(selectedArticle.id)}
+                        />
+                     )}
                      <div className="prose prose-invert prose-blue max-w-none">
                          <pre className="whitespace-pre-wrap font-mono text-sm bg-gray-900 p-4 rounded border border-gray-800 text-gray-300">
-                             {selectedArticle.markdown}
+                             <HighlightedText text={selectedArticle.markdown} query={filters.query} />
                          </pre>
                      </div>
                 </div>
@@ -0,0 +1,254 @@
+/**
+ * PaperScraper command-line runner
+ * Runs the same ScrapeEngine as the web UI, but fetches directly (no CORS proxy) with a
+ * server-side DOM, so the full User-Agent/Referer rotation from antibot.ts applies.
+ *
+ * Usage:
+ *   npm run paperscraper -- run --profile jyb --from 2025-01-01 --to 2025-01-31 --out ./export
+ */
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import process from 'node:process';
+import { parseArgs } from 'node:util';
+import { v4 as uuidv4 } from 'uuid';
+import initSqlJs from 'sql.js';
+import { DOMParser } from 'linkedom';
+import { ArticleFingerprint, DuplicateHandling, ScrapeConfig, ScrapeJob } from '../types';
+import { DEFAULT_CONFIG, BUILTIN_PROFILES } from '../constants';
+import { generateDateRange } from '../services/scraperService';
+import { ScrapeEngine, createJob, jobPages } from '../services/scrapeEngine';
+import { buildMarkdownExport } from '../services/exportService';
+import { expandContinuations } from '../services/continuations';
+import { buildEpub, paperNameFromConfig } from '../services/epubExport';
+import { buildDatasetExport } from '../services/datasetExport';
+import { buildObsidianExport } from '../services/obsidianExport';
+import { buildSqliteDatabase } from '../services/sqliteExport';
+import { FingerprintStore } from '../services/fingerprint';
+import { parseProfiles } from '../services/profileStore';
+
+const USAGE = `Usage: paperscraper run [options]
+
+Options:
+  --profile <name>     Built-in profile (${BUILTIN_PROFILES.map(p => p.id).join(', ')}) or a
+                       profile JSON file exported from the web UI. Default: jyb
+  --config <file>      JSON file with ScrapeConfig overrides
+  --from <YYYY-MM-DD>  First date (default: today)
+  --to <YYYY-MM-DD>    Last date (default: --from)
+  --out <dir>          Output directory (default: ./export)
+  --resume             Continue the job checkpointed in <out>/job.json
+  --images             Download article images into <date>/images/
+  --page-scans         Save full-page scans and PDFs into <date>/pages/
+  --split-continuations
+                       Write stories continued across pages as separate files
+  --obsidian           Write an Obsidian vault (notes with properties, index notes) instead of plain Markdown
+  --epub               Also write the articles as an EPUB book into <out>
+  --dataset            Also write articles.jsonl, articles.csv and schema.json into <out>
+  --sqlite             Also write a SQLite database into <out>. Its full-text table articles_fts
+                       is FTS4 (sql.js has no FTS5); search Chinese as bigrams: MATCH '"教育 育部"'
+  --duplicates <mode>  Articles seen in earlier runs: flag, skip or off (default: flag)
+  --fingerprints <file>
+                       Fingerprint history shared between runs (default: <out>/fingerprints.jsonl)
+  -h, --help           Show this help
+`;
+
+const parseHtml = (html: string): Document => {
+  return new DOMParser().parseFromString(html, 'text/html') as unknown as Document;
+};
+
+const log = (message: string, type: string = 'info') => {
+  const line = `[${new Date().toLocaleTimeString()}] ${message}`;
+  if (type === 'error') console.error(line);
+  else console.log(line);
+};
+
+const loadConfig = async (profileName: string, configFile?: string): Promise<ScrapeConfig> => {
+  let profile = BUILTIN_PROFILES.find(p => p.id === profileName);
+  if (!profile && profileName.endsWith('.json')) {
+    // First profile of a file exported from the profile manager
+    [profile] = parseProfiles(await readFile(profileName, 'utf-8'));
+  }
+  if (!profile) {
+    throw new Error(`Unknown profile "${profileName}". Available: ${BUILTIN_PROFILES.map(p => p.id).join(', ')}`);
+  }
+
+  let overrides: Partial<ScrapeConfig> = {};
+  if (configFile) {
+    overrides = JSON.parse(await readFile(configFile, 'utf-8'));
+  }
+
+  // Direct requests from the server: no proxy needed, real header rotation possible
+  return { ...DEFAULT_CONFIG, ...profile.config, ...overrides, useProxy: false };
+};
+
+/**
+ * Fingerprint history as a JSON Lines file, appended as articles are extracted
+ */
+const fileFingerprintStore = (file: string): FingerprintStore => ({
+  load: async () => {
+    if (!existsSync(file)) return [];
+    const lines = (await readFile(file, 'utf-8')).split('\n').filter(line => line.trim());
+    return lines.map(line => JSON.parse(line) as ArticleFingerprint);
+  },
+  save: async (fingerprint) => {
+    await appendFile(file, `${JSON.stringify(fingerprint)}\n`, 'utf-8');
+  },
+});
+
+const writeExport = async (job: ScrapeJob, outDir: string, vault: boolean) => {
+  const articles = job.config.exportContinuationFragments ? expandContinuations(job.articles) : job.articles;
+  const files = vault ? buildObsidianExport(articles) : buildMarkdownExport(articles);
+  for (const file of files) {
+    const target = path.join(outDir, file.path);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file.content, 'utf-8');
+  }
+  log(`Wrote ${articles.length} articles to ${outDir}`, 'success');
+};
+
+const writeEpub = async (job: ScrapeJob, outDir: string) => {
+  const articles = job.config.exportContinuationFragments ? expandContinuations(job.articles) : job.articles;
+  if (articles.length === 0) return;
+
+  // Downloaded images are already in the export layout
+  const files = new Map<string, string>();
+  articles.forEach(article => (article.images || []).forEach(image => {
+    if (image.file) files.set(image.url, path.join(outDir, article.date, image.file));
+  }));
+  const loadAsset = async (url: string) => {
+    const file = files.get(url);
+    return file && existsSync(file) ? { data: new Uint8Array(await readFile(file)) } : undefined;
+  };
+
+  const data = await buildEpub(articles, loadAsset, { paperName: paperNameFromConfig(job.config) });
+  const target = path.join(outDir, `paper_${job.config.startDate}_to_${job.config.endDate}.epub`);
+  await writeFile(target, data);
+  log(`Wrote EPUB to ${target}`, 'success');
+};
+
+const writeDataset = async (job: ScrapeJob, outDir: string) => {
+  const articles = job.config.exportContinuationFragments ? expandContinuations(job.articles) : job.articles;
+  for (const file of buildDatasetExport(articles)) {
+    await writeFile(path.join(outDir, file.path), file.content, 'utf-8');
+  }
+  log(`Wrote dataset of ${articles.length} articles to ${outDir}`, 'success');
+};
+
+const writeSqlite = async (job: ScrapeJob, outDir: string) => {
+  const SQL = await initSqlJs();
+  const data = buildSqliteDatabase(SQL, {
+    articles: job.articles,
+    pages: jobPages(job),
+    pageScans: Object.values(job.pageScans || {}),
+    config: job.config,
+  });
+  const target = path.join(outDir, `paper_${job.config.startDate}_to_${job.config.endDate}.sqlite`);
+  await writeFile(target, data);
+  log(`Wrote SQLite database to ${target}`, 'success');
+};
+
+const run = async (options: { [key: string]: string | boolean | undefined }) => {
+  const outDir = path.resolve(String(options.out || './export'));
+  const jobFile = path.join(outDir, 'job.json');
+  await mkdir(outDir, { recursive: true });
+
+  let job: ScrapeJob;
+  if (options.resume) {
+    if (!existsSync(jobFile)) throw new Error(`No job checkpoint found at ${jobFile}`);
+    job = JSON.parse(await readFile(jobFile, 'utf-8'));
+    log(`Resuming job ${job.id}`);
+  } else {
+    const config = await loadConfig(String(options.profile || 'jyb'), options.config as string | undefined);
+    config.startDate = String(options.from || new Date().toISOString().split('T')[0]);
+    config.endDate = String(options.to || config.startDate);
+    if (options.images) config.downloadImages = true;
+    if (options['page-scans']) config.downloadPageScans = true;
+    if (options['split-continuations']) config.exportContinuationFragments = true;
+    if (options.duplicates) {
+      const mode = String(options.duplicates);
+      if (!['flag', 'skip', 'off'].includes(mode)) throw new Error(`Invalid --duplicates mode "${mode}"`);
+      config.duplicateHandling = mode as DuplicateHandling;
+    }
+
+    const dates = generateDateRange(config.startDate, config.endDate);
+    if (dates.length === 0) throw new Error('Invalid date range selected.');
+    job = createJob(uuidv4(), config, dates);
+  }
+
+  const engine = new ScrapeEngine(job, {
+    parseHtml,
+    unrestrictedHeaders: true,
+    checkpoint: async (current) => {
+      current.updatedAt = new Date().toISOString();
+      await writeFile(jobFile, JSON.stringify(current), 'utf-8');
+    },
+    fingerprints: fileFingerprintStore(path.resolve(String(options.fingerprints || path.join(outDir, 'fingerprints.jsonl')))),
+    // Downloads go straight to their place in the export layout
+    saveAsset: async ({ date, file, data }) => {
+      const target = path.join(outDir, date, file);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, data);
+    },
+  });
+
+  engine.on('log', ({ message, type }) => log(message, type));
+  engine.on('dateCompleted', ({ completed, total }) => log(`Progress: ${completed}/${total} days`));
+
+  // Ctrl+C stops after the current request; the checkpoint allows --resume
+  process.once('SIGINT', () => {
+    log('Stopping after the current request...', 'warning');
+    engine.stop();
+  });
+
+  let endReason = '';
+  engine.on('completed', ({ reason }) => { endReason = reason; });
+
+  await engine.run();
+  await writeExport(job, outDir, Boolean(options.obsidian));
+  if (options.epub) await writeEpub(job, outDir);
+  if (options.dataset) await writeDataset(job, outDir);
+  if (options.sqlite) await writeSqlite(job, outDir);
+
+  if (endReason !== 'finished') {
+    log(`Job ended early (${endReason}). Continue with --resume --out ${outDir}`, 'warning');
+    process.exitCode = endReason === 'error' || endReason === 'incomplete' ? 1 : 0;
+  }
+};
+
+const main = async () => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      profile: { type: 'string' },
+      config: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      out: { type: 'string' },
+      resume: { type: 'boolean' },
+      images: { type: 'boolean' },
+      'page-scans': { type: 'boolean' },
+      'split-continuations': { type: 'boolean' },
+      obsidian: { type: 'boolean' },
+      epub: { type: 'boolean' },
+      dataset: { type: 'boolean' },
+      sqlite: { type: 'boolean' },
+      duplicates: { type: 'string' },
+      fingerprints: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || command !== 'run') {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  await run(values);
+};
+
+main().catch((err) => {
+  log(err.message, 'error');
+  process.exitCode = 1;
+});
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Article } from '../types';
+import { Article, CleanStatus, EnrichStatus, TranslateStatus } from '../types';
 import { MagicWandIcon, TrashIcon } from './Icons';
 
 interface ArticleListProps {
@@ -8,9 +8,32 @@ interface ArticleListProps {
   onOptimize: (id: string) => void;
   selectedId: string | null;
   onSelect: (id: string) => void;
+  checkedIds: Set<string>; // Articles selected for batch cleanup
+  onToggleChecked: (id: string) => void;
 }
 
-export const ArticleList: React.FC<ArticleListProps> = ({ articles, onDelete, onOptimize, selectedId, onSelect }) => {
+const CLEAN_BADGES: { [status in CleanStatus]?: { label: string; className: string } } = {
+  queued: { label: 'queued', className: 'text-gray-300' },
+  cleaning: { label: 'cleaning...', className: 'text-purple-300' },
+  cleaned: { label: 'cleaned', className: 'text-green-400' },
+  failed: { label: 'cleanup failed', className: 'text-red-400' },
+};
+
+const ENRICH_BADGES: { [status in EnrichStatus]?: { label: string; className: string } } = {
+  queued: { label: 'enrichment queued', className: 'text-gray-300' },
+  enriching: { label: 'enriching...', className: 'text-purple-300' },
+  enriched: { label: 'enriched', className: 'text-blue-300' },
+  failed: { label: 'enrichment failed', className: 'text-red-400' },
+};
+
+const TRANSLATE_BADGES: { [status in TranslateStatus]?: { label: string; className: string } } = {
+  queued: { label: 'translation queued', className: 'text-gray-300' },
+  translating: { label: 'translating...', className: 'text-purple-300' },
+  translated: { label: 'translated', className: 'text-teal-300' },
+  failed: { label: 'translation failed', className: 'text-red-400' },
+};
+
+export const ArticleList: React.FC<ArticleListProps> = ({ articles, onDelete, onOptimize, selectedId, onSelect, checkedIds, onToggleChecked }) => {
   if (articles.length === 0) {
     return <div className="p-8 text-center text-gray-500 italic">No articles extracted yet.</div>;
   }
@@ -28,19 +51,48 @@ export const ArticleList: React.FC<ArticleListProps> = ({ articles, onDelete, on
           }`}
         >
           <div className="flex justify-between items-start">
+            <input
+              type="checkbox"
+              checked={checkedIds.has(article.id)}
+              onChange={() => onToggleChecked(article.id)}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-1 mr-2"
+              title="Select for batch cleanup"
+            />
             <div className="flex-1 min-w-0">
               <h4 className="font-semibold text-sm text-gray-200 truncate pr-2" title={article.title}>
                 {article.title || 'Untitled'}
               </h4>
               <p className="text-xs text-gray-400 mt-1">
                 {article.date} | {article.content.length} chars
+                {article.duplicateOf && <span className="ml-1 text-yellow-400" title={`Duplicate of "${article.duplicateOf.title}"`}>| duplicate</span>}
+                {article.cleanStatus && CLEAN_BADGES[article.cleanStatus] && (
+                  <span className={`ml-1 ${CLEAN_BADGES[article.cleanStatus]?.className}`} title={article.cleanError}>
+                    | {CLEAN_BADGES[article.cleanStatus]?.label}
+                  </span>
+                )}
+                {article.cleanWarning && (
+                  <span className="ml-1 text-yellow-400" title={article.cleanWarning}>
+                    | check length
+                  </span>
+                )}
+                {article.enrichStatus && ENRICH_BADGES[article.enrichStatus] && (
+                  <span className={`ml-1 ${ENRICH_BADGES[article.enrichStatus]?.className}`} title={article.enrichError}>
+                    | {ENRICH_BADGES[article.enrichStatus]?.label}
+                  </span>
+                )}
+                {article.translateStatus && TRANSLATE_BADGES[article.translateStatus] && (
+                  <span className={`ml-1 ${TRANSLATE_BADGES[article.translateStatus]?.className}`} title={article.translateError}>
+                    | {TRANSLATE_BADGES[article.translateStatus]?.label}
+                  </span>
+                )}
               </p>
             </div>
             <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
               <button
                 onClick={(e) => { e.stopPropagation(); onOptimize(article.id); }}
                 className="p-1 hover:bg-gray-700 rounded text-purple-400"
-                title="Optimize with Gemini"
+                title="Clean with AI"
               >
                 <MagicWandIcon />
               </button>
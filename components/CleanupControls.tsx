@@ -0,0 +1,97 @@
+import React from 'react';
+import { AiTask, CleanupProgress } from '../services/cleanupQueue';
+import { MagicWandIcon } from './Icons';
+
+interface CleanupControlsProps {
+  progress: CleanupProgress | null; // null until the first AI task
+  pendingCounts: { [task in AiTask]: number }; // Listed articles the task hasn't been run on yet
+  selectedCount: number;
+  onRun: (task: AiTask, scope: 'all' | 'selected') => void;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const TASK_LABELS: { task: AiTask; label: string; title: string }[] = [
+  { task: 'clean', label: 'Clean', title: 'Fix formatting of every listed article that hasn\'t been cleaned yet' },
+  { task: 'enrich', label: 'Enrich', title: 'Summarize and tag every listed article that hasn\'t been enriched yet' },
+  { task: 'translate', label: 'Translate', title: 'Translate every listed article that hasn\'t been translated yet' },
+];
+
+const formatTokens = (count: number): string => {
+  return count >= 10000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+};
+
+export const CleanupControls: React.FC<CleanupControlsProps> = ({
+  progress, pendingCounts, selectedCount, onRun, onSelectAll, onClearSelection, onPause, onResume, onCancel,
+}) => {
+  const active = !!progress && progress.queued + progress.running > 0;
+  const done = progress ? progress.done + progress.failed : 0;
+
+  return (
+    <div className="mt-2 space-y-1">
+      {TASK_LABELS.map(({ task, label, title }, index) => (
+        <div key={task} className="flex items-center gap-2 text-xs">
+          <button
+            onClick={() => onRun(task, 'all')}
+            disabled={pendingCounts[task] === 0}
+            className="flex items-center gap-1 text-purple-400 hover:text-purple-300 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={title}
+          >
+            <MagicWandIcon /> {label} all ({pendingCounts[task]})
+          </button>
+          <button
+            onClick={() => onRun(task, 'selected')}
+            disabled={selectedCount === 0}
+            className="text-purple-400 hover:text-purple-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {label} selected ({selectedCount})
+          </button>
+          {index === 0 && (
+            <button
+              onClick={selectedCount > 0 ? onClearSelection : onSelectAll}
+              className="ml-auto text-gray-500 hover:text-gray-300"
+            >
+              {selectedCount > 0 ? 'Clear selection' : 'Select listed'}
+            </button>
+          )}
+        </div>
+      ))}
+
+      {progress && (
+        <div className="bg-gray-800/60 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-400">
+          {active && (
+            <>
+              <div className="flex justify-between items-center">
+                <span>
+                  {progress.paused ? 'Paused' : 'Processing'} {done}/{progress.total}
+                  {progress.failed > 0 && <span className="text-red-400"> · {progress.failed} failed</span>}
+                </span>
+                <span className="flex gap-2">
+                  <button onClick={progress.paused ? onResume : onPause} className="text-gray-300 hover:text-white">
+                    {progress.paused ? 'Resume' : 'Pause'}
+                  </button>
+                  <button onClick={onCancel} className="text-red-400 hover:text-red-300">Cancel</button>
+                </span>
+              </div>
+              <div className="h-1 bg-gray-900 rounded-full overflow-hidden my-1">
+                <div
+                  className="h-full bg-purple-500 transition-all duration-300 ease-out"
+                  style={{ width: `${progress.total > 0 ? (done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+            </>
+          )}
+          <div title={progress.usage.estimated
+            ? 'Tokens this session; approximate, as the API didn\'t report usage for some requests'
+            : 'Tokens reported by the API this session'}>
+            Tokens: {progress.usage.estimated && '~'}{formatTokens(progress.usage.inputTokens)} in / {progress.usage.estimated && '~'}{formatTokens(progress.usage.outputTokens)} out
+            {progress.usage.estimated && <span className="text-gray-500"> (partly estimated)</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,17 @@
 import React from 'react';
 import { ScrapeConfig } from '../types';
 import { SettingsIcon } from './Icons';
+import { LOCAL_PROXY_TEMPLATE, PROXY_PREFIX } from '../constants';
+import { LLM_PROVIDERS, providerInfo } from '../services/llmProvider';
+import { loadApiKey, saveApiKey } from '../services/apiKeyStore';
+import { SelectorPlayground } from './SelectorPlayground';
+import {
+  CLEANUP_PROMPT_PRESETS,
+  DEFAULT_CLEANUP_TEMPLATE,
+  PROMPT_VARIABLES,
+  cleanupTemplateOrDefault,
+  promptTemplateProblems,
+} from '../services/promptTemplate';
 
 interface ConfigPanelProps {
   config: ScrapeConfig;
@@ -10,6 +21,21 @@ interface ConfigPanelProps {
 
 export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disabled }) => {
   const [isOpen, setIsOpen] = React.useState(true);
+  const provider = providerInfo(config.llmProvider || 'gemini');
+  // Keys live in their own store, not in the config (see apiKeyStore)
+  const [apiKey, setApiKey] = React.useState(() => loadApiKey(provider.id));
+  React.useEffect(() => setApiKey(loadApiKey(provider.id)), [provider.id]);
+
+  const changeApiKey = (key: string) => {
+    setApiKey(key);
+    saveApiKey(provider.id, key);
+  };
+
+  const promptTemplate = cleanupTemplateOrDefault(config.cleanupPromptTemplate);
+  // The default is stored as empty, so profiles keep following it when it changes
+  const changePromptTemplate = (template: string) => {
+    onChange('cleanupPromptTemplate', template === DEFAULT_CLEANUP_TEMPLATE ? '' : template);
+  };
 
   return (
     <div className="bg-gray-800 rounded-lg p-4 mb-4 border border-gray-700">
@@ -130,7 +156,27 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disa
                         className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm font-mono text-xs focus:border-blue-500 focus:outline-none"
                         />
                     </div>
+
+                    <div>
+                        <label className="block text-xs text-gray-400 mb-1">Page Encoding</label>
+                        <select
+                        value={config.charsetOverride || ''}
+                        onChange={(e) => onChange('charsetOverride', e.target.value)}
+                        disabled={disabled}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+                        >
+                            <option value="">Auto-detect</option>
+                            <option value="utf-8">UTF-8</option>
+                            <option value="gb18030">GB18030 / GBK / GB2312</option>
+                            <option value="big5">Big5</option>
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">Force only if the site declares the wrong charset</p>
+                    </div>
                 </div>
+                <details className="mt-3">
+                    <summary className="text-xs text-gray-500 cursor-pointer">Selector Playground</summary>
+                    <SelectorPlayground config={config} />
+                </details>
             </details>
           </div>
 
@@ -201,6 +247,59 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disa
                     )}
                   </div>
 
+                  {/* Concurrency Section */}
+                  <div className="bg-gray-900/50 p-3 rounded border border-gray-700">
+                    <div className="flex items-center mb-3">
+                      <input
+                        type="checkbox"
+                        id="concurrencyCheck"
+                        checked={config.enableConcurrency || false}
+                        onChange={(e) => onChange('enableConcurrency', e.target.checked)}
+                        disabled={disabled}
+                        className="mr-2"
+                      />
+                      <label htmlFor="concurrencyCheck" className="text-sm text-gray-300 font-medium">
+                        Concurrent Fetching
+                      </label>
+                    </div>
+
+                    {config.enableConcurrency && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 pl-6">
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Max Requests per Host</label>
+                          <input
+                            type="number"
+                            min="1"
+                            max="16"
+                            value={config.maxConcurrentPerHost || 2}
+                            onChange={(e) => onChange('maxConcurrentPerHost', parseInt(e.target.value) || 2)}
+                            disabled={disabled}
+                            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">In-flight requests per host</p>
+                        </div>
+
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Min Spacing (ms)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="60000"
+                            value={config.minHostSpacingMs ?? 1500}
+                            onChange={(e) => onChange('minHostSpacingMs', parseInt(e.target.value) || 0)}
+                            disabled={disabled}
+                            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                          />
+                          <p className="text-xs text-gray-500 mt-1">Gap between requests to one host</p>
+                        </div>
+
+                        <p className="col-span-full text-xs text-gray-500">
+                          Pages and dates are fetched in parallel and replace the random delays. With rate limiting on, each batch of dates runs in parallel and cooldowns and the daily limit still apply.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+
                   {/* Request Randomization Section */}
                   <div className="bg-gray-900/50 p-3 rounded border border-gray-700">
                     <div className="space-y-2">
@@ -248,6 +347,95 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disa
             </details>
           </div>
 
+          <div className="col-span-full flex items-center">
+            <input
+              type="checkbox"
+              id="imagesCheck"
+              checked={config.downloadImages || false}
+              onChange={(e) => onChange('downloadImages', e.target.checked)}
+              disabled={disabled}
+              className="mr-2"
+            />
+            <label htmlFor="imagesCheck" className="text-sm text-gray-300">Download article images (bundled in export)</label>
+          </div>
+
+          <div className="col-span-full">
+            <label className="block text-xs text-gray-400 mb-1">Articles Seen in Earlier Runs</label>
+            <select
+              value={config.duplicateHandling || 'off'}
+              onChange={(e) => onChange('duplicateHandling', e.target.value)}
+              disabled={disabled}
+              className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            >
+              <option value="flag">Keep and flag for review</option>
+              <option value="skip">Skip (don't fetch known URLs)</option>
+              <option value="off">Don't check</option>
+            </select>
+          </div>
+
+          <div className="col-span-full flex flex-wrap items-center gap-x-6 gap-y-2">
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="mergeContinuationsCheck"
+                checked={config.mergeContinuations || false}
+                onChange={(e) => onChange('mergeContinuations', e.target.checked)}
+                disabled={disabled}
+                className="mr-2"
+              />
+              <label htmlFor="mergeContinuationsCheck" className="text-sm text-gray-300">Merge stories continued on other pages (转第X版)</label>
+            </div>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="fragmentsCheck"
+                checked={config.exportContinuationFragments || false}
+                onChange={(e) => onChange('exportContinuationFragments', e.target.checked)}
+                className="mr-2"
+              />
+              <label htmlFor="fragmentsCheck" className="text-sm text-gray-300">Export merged stories as separate page fragments</label>
+            </div>
+          </div>
+
+          <div className="col-span-full">
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="pageScansCheck"
+                checked={config.downloadPageScans || false}
+                onChange={(e) => onChange('downloadPageScans', e.target.checked)}
+                disabled={disabled}
+                className="mr-2"
+              />
+              <label htmlFor="pageScansCheck" className="text-sm text-gray-300">Save full-page scans and PDFs (pages/01.jpg, 01.pdf)</label>
+            </div>
+
+            {config.downloadPageScans && (
+              <div className="grid grid-cols-2 gap-3 mt-2 ml-6">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Page Image Selector</label>
+                  <input
+                    type="text"
+                    value={config.pageImageSelector || ''}
+                    onChange={(e) => onChange('pageImageSelector', e.target.value)}
+                    disabled={disabled}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm font-mono text-xs focus:border-blue-500 focus:outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Page PDF Selector</label>
+                  <input
+                    type="text"
+                    value={config.pagePdfSelector || ''}
+                    onChange={(e) => onChange('pagePdfSelector', e.target.value)}
+                    disabled={disabled}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm font-mono text-xs focus:border-blue-500 focus:outline-none"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
            <div className="flex items-center pt-2">
             <input
               type="checkbox"
@@ -259,6 +447,187 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({ config, onChange, disa
             />
             <label htmlFor="proxyCheck" className="text-sm text-gray-300">Use CORS Proxy (Recommended)</label>
           </div>
+
+          {config.useProxy && (
+            <div className="col-span-full">
+              <div className="flex justify-between items-end mb-1">
+                <label className="block text-xs text-gray-400">Proxy Backends (one per line, tried in order)</label>
+                {!(config.proxyTemplates || []).includes(LOCAL_PROXY_TEMPLATE) && (
+                  <button
+                    onClick={() => onChange('proxyTemplates', [LOCAL_PROXY_TEMPLATE, ...(config.proxyTemplates || [])])}
+                    disabled={disabled}
+                    className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    + Local proxy
+                  </button>
+                )}
+              </div>
+              <textarea
+                rows={3}
+                value={(config.proxyTemplates || []).join('\n')}
+                onChange={(e) => onChange('proxyTemplates', e.target.value.split('\n'))}
+                disabled={disabled}
+                placeholder={PROXY_PREFIX}
+                className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 font-mono text-xs focus:border-blue-500 focus:outline-none"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Prefix style (<code>https://proxy/?url=</code>) or with a <code>&#123;url&#125;</code> placeholder. Failing proxies are skipped automatically. The local proxy runs with <code>npm run dev</code> or <code>npm run proxy</code>.
+              </p>
+            </div>
+          )}
+
+          <div className="col-span-full">
+            <details>
+                <summary className="text-xs text-gray-500 cursor-pointer mb-2 font-semibold">AI Provider &amp; Cleanup</summary>
+                <div className="grid grid-cols-2 gap-3 mt-2">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Provider</label>
+                    <select
+                      value={provider.id}
+                      onChange={(e) => onChange('llmProvider', e.target.value)}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                    >
+                      {LLM_PROVIDERS.map(({ id, label }) => (
+                        <option key={id} value={id}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Model</label>
+                    <input
+                      type="text"
+                      value={config.llmModel || ''}
+                      onChange={(e) => onChange('llmModel', e.target.value)}
+                      placeholder={provider.defaultModel}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-xs focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                  {provider.id === 'openai' && (
+                    <div className="col-span-full">
+                      <label className="block text-xs text-gray-400 mb-1">Base URL</label>
+                      <input
+                        type="text"
+                        value={config.llmBaseUrl || ''}
+                        onChange={(e) => onChange('llmBaseUrl', e.target.value)}
+                        placeholder={provider.defaultBaseUrl}
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-xs focus:border-blue-500 focus:outline-none"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Local servers: Ollama <code>http://localhost:11434/v1</code>, llama.cpp <code>http://localhost:8080/v1</code>
+                      </p>
+                    </div>
+                  )}
+                  {provider.id !== 'mock' && (
+                    <div className="col-span-full">
+                      <label className="block text-xs text-gray-400 mb-1">API Key</label>
+                      <input
+                        type="password"
+                        value={apiKey}
+                        onChange={(e) => changeApiKey(e.target.value)}
+                        placeholder={provider.id === 'gemini' ? 'Defaults to VITE_API_KEY' : 'Not needed for most local servers'}
+                        autoComplete="off"
+                        className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm font-mono text-xs focus:border-blue-500 focus:outline-none"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Saved in this browser only; never included in profiles or exports.</p>
+                    </div>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-3 mt-3">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Parallel</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="8"
+                      value={config.cleanupConcurrency || 2}
+                      onChange={(e) => onChange('cleanupConcurrency', parseInt(e.target.value) || 1)}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Requests/min</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="1000"
+                      value={config.cleanupRequestsPerMinute ?? 10}
+                      onChange={(e) => onChange('cleanupRequestsPerMinute', parseInt(e.target.value) || 0)}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Retries</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="10"
+                      value={config.cleanupMaxRetries ?? 3}
+                      onChange={(e) => onChange('cleanupMaxRetries', parseInt(e.target.value) || 0)}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <label className="block text-xs text-gray-400 mb-1">Characters per request</label>
+                    <input
+                      type="number"
+                      min="1000"
+                      max="100000"
+                      step="1000"
+                      value={config.cleanupChunkChars || 8000}
+                      onChange={(e) => onChange('cleanupChunkChars', parseInt(e.target.value) || 8000)}
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Translate into</label>
+                    <input
+                      type="text"
+                      value={config.translationLanguage || ''}
+                      onChange={(e) => onChange('translationLanguage', e.target.value)}
+                      placeholder="English"
+                      className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-sm focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                  <p className="col-span-full text-xs text-gray-500">
+                    Used by the Clean, Enrich and Translate actions. Longer articles are cleaned and translated in parts split between paragraphs. Failed requests are retried with exponential backoff; 0 requests/min means no limit.
+                  </p>
+                </div>
+                <div className="mt-3">
+                  <div className="flex justify-between items-end mb-1">
+                    <label className="block text-xs text-gray-400">Cleanup prompt</label>
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const preset = CLEANUP_PROMPT_PRESETS.find(p => p.id === e.target.value);
+                        if (preset) changePromptTemplate(preset.template);
+                      }}
+                      className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-xs text-gray-300 focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="">Load preset...</option>
+                      {CLEANUP_PROMPT_PRESETS.map(({ id, label }) => (
+                        <option key={id} value={id}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <textarea
+                    rows={10}
+                    value={promptTemplate}
+                    onChange={(e) => changePromptTemplate(e.target.value)}
+                    className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 font-mono text-xs focus:border-blue-500 focus:outline-none"
+                  />
+                  {promptTemplateProblems(promptTemplate).map(problem => (
+                    <p key={problem} className="text-xs text-yellow-400">{problem}</p>
+                  ))}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Placeholders:{' '}
+                    {PROMPT_VARIABLES.map(({ name, description }) => (
+                      <code key={name} title={description} className="mr-1">{`{${name}}`}</code>
+                    ))}
+                    Saved with the site profile. Use "Preview prompt" on an article to check the result.
+                  </p>
+                </div>
+            </details>
+          </div>
         </div>
       )}
     </div>
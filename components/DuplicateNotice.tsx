@@ -0,0 +1,35 @@
+import React from 'react';
+import { DuplicateMatch } from '../types';
+
+interface DuplicateNoticeProps {
+  match: DuplicateMatch;
+  onKeep: () => void;
+  onRemove: () => void;
+}
+
+const REASONS: { [reason in DuplicateMatch['reason']]: string } = {
+  url: 'Same URL as',
+  content: 'Identical text to',
+  similar: 'Nearly identical text to',
+};
+
+export const DuplicateNotice: React.FC<DuplicateNoticeProps> = ({ match, onKeep, onRemove }) => {
+  return (
+    <div className="mb-6 p-3 rounded border border-yellow-700 bg-yellow-900/20 text-sm flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-yellow-300 font-medium">Possible duplicate</p>
+        <p className="text-gray-300 mt-1">
+          {REASONS[match.reason]}{' '}
+          <a href={match.url} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">
+            "{match.title}"
+          </a>{' '}
+          ({match.date}{match.distance !== undefined && `, ${match.distance} bits apart`})
+        </p>
+      </div>
+      <div className="flex gap-2 shrink-0">
+        <button onClick={onKeep} className="px-2 py-1 text-xs rounded border border-gray-600 text-gray-300 hover:bg-gray-700">Not a duplicate</button>
+        <button onClick={onRemove} className="px-2 py-1 text-xs rounded border border-red-700 text-red-300 hover:bg-red-900/40">Remove</button>
+      </div>
+    </div>
+  );
+};
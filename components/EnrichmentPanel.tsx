@@ -0,0 +1,54 @@
+import React from 'react';
+import { Article } from '../types';
+
+interface EnrichmentPanelProps {
+  article: Article;
+  onSelectTerm: (term: string) => void; // Filter the list by a keyword or entity
+}
+
+const GROUPS: { key: 'keywords' | 'people' | 'organizations' | 'places'; label: string; className: string }[] = [
+  { key: 'keywords', label: 'Keywords', className: 'bg-purple-900/40 text-purple-200 border-purple-700/50' },
+  { key: 'people', label: 'People', className: 'bg-blue-900/40 text-blue-200 border-blue-700/50' },
+  { key: 'organizations', label: 'Organizations', className: 'bg-green-900/40 text-green-200 border-green-700/50' },
+  { key: 'places', label: 'Places', className: 'bg-amber-900/40 text-amber-200 border-amber-700/50' },
+];
+
+export const EnrichmentPanel: React.FC<EnrichmentPanelProps> = ({ article, onSelectTerm }) => {
+  const { enrichment, enrichStatus, enrichError, enrichWarning } = article;
+
+  if (!enrichment) {
+    if (enrichStatus === 'failed') {
+      return <p className="text-xs text-red-400 mb-4">AI enrichment failed: {enrichError}</p>;
+    }
+    if (enrichStatus === 'queued' || enrichStatus === 'enriching') {
+      return <p className="text-xs text-gray-500 mb-4">{enrichStatus === 'queued' ? 'Queued for enrichment...' : 'Enriching...'}</p>;
+    }
+    return null;
+  }
+
+  return (
+    <div className="mb-6 bg-gray-900 border border-gray-800 rounded p-4 space-y-3">
+      <p className="text-sm text-gray-200 leading-relaxed">{enrichment.summary}</p>
+      {GROUPS.filter(({ key }) => enrichment[key].length > 0).map(({ key, label, className }) => (
+        <div key={key} className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-gray-500 w-24 shrink-0">{label}</span>
+          {enrichment[key].map(term => (
+            <button
+              key={term}
+              onClick={() => onSelectTerm(term)}
+              title={`Show articles tagged "${term}"`}
+              className={`text-xs px-2 py-0.5 rounded border hover:brightness-125 ${className}`}
+            >
+              {term}
+            </button>
+          ))}
+        </div>
+      ))}
+      <p className="text-xs text-gray-600">
+        {enrichment.model} · {new Date(enrichment.enrichedAt).toLocaleString()}
+        {enrichWarning && <span className="text-yellow-400"> · {enrichWarning}</span>}
+        {enrichStatus === 'failed' && <span className="text-red-400"> · Last re-run failed: {enrichError}</span>}
+      </p>
+    </div>
+  );
+};
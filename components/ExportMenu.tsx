@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { DownloadIcon } from './Icons';
+
+export type ExportFormat = 'markdown' | 'obsidian' | 'translated' | 'bilingual' | 'epub' | 'dataset' | 'sqlite';
+
+interface ExportMenuProps {
+  count: number; // Articles the export will contain
+  filtered: boolean; // Whether only the filtered articles are exported
+  onExport: (format: ExportFormat) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Markdown (ZIP)', description: 'One .md file per article, folders per date' },
+  { format: 'obsidian', label: 'Obsidian vault (ZIP)', description: 'Notes with properties, daily and top-level index notes' },
+  { format: 'translated', label: 'Translation (ZIP)', description: 'AI translations of the translated articles only' },
+  { format: 'bilingual', label: 'Bilingual Markdown (ZIP)', description: 'Each paragraph followed by its translation' },
+  { format: 'epub', label: 'EPUB', description: 'E-book with a table of contents' },
+  { format: 'dataset', label: 'Dataset (JSONL + CSV)', description: 'One row per article, with schema.json' },
+  { format: 'sqlite', label: 'SQLite database', description: 'Single file with full-text search; can be opened again' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ count, filtered, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const choose = (format: ExportFormat) => {
+    setIsOpen(false);
+    onExport(format);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={count === 0}
+        className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded border border-gray-700 transition-colors font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <DownloadIcon /> Export{filtered && ` (${count} filtered)`}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 bg-gray-800 border border-gray-700 rounded shadow-lg z-20">
+          {FORMATS.map(({ format, label, description }) => (
+            <button
+              key={format}
+              onClick={() => choose(format)}
+              className="block w-full text-left px-3 py-2 hover:bg-gray-700 first:rounded-t last:rounded-b"
+            >
+              <span className="block text-sm text-gray-200">{label}</span>
+              <span className="block text-xs text-gray-500">{description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import React from 'react';
+import { highlightSegments } from '../services/searchIndex';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query }) => {
+  return (
+    <>
+      {highlightSegments(text, query).map((segment, i) => (
+        segment.match
+          ? <mark key={i} className="bg-yellow-500/40 text-yellow-100 rounded-sm">{segment.text}</mark>
+          : <React.Fragment key={i}>{segment.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,162 @@
+import React from 'react';
+import { ProfileConfig, ScrapeConfig, SiteProfile } from '../types';
+import {
+  loadProfiles,
+  saveUserProfiles,
+  loadActiveProfileId,
+  saveActiveProfileId,
+  createProfile,
+  uniqueProfileName,
+  toProfileConfig,
+  serializeProfiles,
+  parseProfiles,
+} from '../services/profileStore';
+import { sanitizeFilename } from '../services/exportService';
+import { downloadBlob } from '../services/download';
+
+interface ProfileManagerProps {
+  config: ScrapeConfig;
+  onApply: (config: ProfileConfig) => void;
+  onMessage: (message: string, type?: 'info' | 'success' | 'error' | 'warning') => void;
+  disabled: boolean;
+}
+
+const buttonClass = 'px-2 py-1 text-xs rounded border border-gray-700 bg-gray-900 hover:bg-gray-700 text-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const ProfileManager: React.FC<ProfileManagerProps> = ({ config, onApply, onMessage, disabled }) => {
+  const [profiles, setProfiles] = React.useState<SiteProfile[]>(() => loadProfiles());
+  const [activeId, setActiveId] = React.useState<string>(() => loadActiveProfileId() || 'jyb');
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const active = profiles.find(p => p.id === activeId);
+
+  const updateProfiles = (next: SiteProfile[]) => {
+    setProfiles(next);
+    saveUserProfiles(next);
+  };
+
+  const select = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setActiveId(id);
+    saveActiveProfileId(id);
+    onApply(profile.config);
+  };
+
+  const saveAs = (suggestedName: string) => {
+    const name = window.prompt('Profile name', uniqueProfileName(suggestedName, profiles));
+    if (!name) return;
+    const profile = createProfile(uniqueProfileName(name.trim(), profiles), toProfileConfig(config));
+    updateProfiles([...profiles, profile]);
+    setActiveId(profile.id);
+    saveActiveProfileId(profile.id);
+    onMessage(`Saved profile "${profile.name}"`, 'success');
+  };
+
+  const save = () => {
+    if (!active || active.builtIn) {
+      saveAs(active ? `${active.name} (custom)` : 'New profile');
+      return;
+    }
+    updateProfiles(profiles.map(p => p.id === active.id ? { ...p, config: toProfileConfig(config) } : p));
+    onMessage(`Saved profile "${active.name}"`, 'success');
+  };
+
+  const rename = () => {
+    if (!active || active.builtIn) return;
+    const name = window.prompt('Rename profile', active.name);
+    if (!name || name.trim() === active.name) return;
+    const others = profiles.filter(p => p.id !== active.id);
+    updateProfiles(profiles.map(p => p.id === active.id ? { ...p, name: uniqueProfileName(name.trim(), others) } : p));
+  };
+
+  const duplicate = () => {
+    if (!active) return;
+    const copy = createProfile(uniqueProfileName(`${active.name} (copy)`, profiles), active.config);
+    updateProfiles([...profiles, copy]);
+    setActiveId(copy.id);
+    saveActiveProfileId(copy.id);
+  };
+
+  const remove = () => {
+    if (!active || active.builtIn) return;
+    if (!window.confirm(`Delete profile "${active.name}"?`)) return;
+    updateProfiles(profiles.filter(p => p.id !== active.id));
+    setActiveId('jyb');
+    saveActiveProfileId('jyb');
+  };
+
+  const exportProfiles = (list: SiteProfile[], filename: string) => {
+    const blob = new Blob([serializeProfiles(list)], { type: 'application/json' });
+    downloadBlob(blob, filename);
+  };
+
+  const importProfiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseProfiles(await file.text());
+      const next = [...profiles];
+      imported.forEach(profile => {
+        next.push({ ...profile, name: uniqueProfileName(profile.name, next) });
+      });
+      updateProfiles(next);
+      onMessage(`Imported ${imported.length} profile(s) from ${file.name}`, 'success');
+    } catch (err: any) {
+      onMessage(`Profile import failed: ${err.message}`, 'error');
+    }
+  };
+
+  const userProfiles = profiles.filter(p => !p.builtIn);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 mb-4 border border-gray-700">
+      <label className="block text-xs text-gray-400 mb-1">Site Profile</label>
+      <select
+        value={active ? activeId : ''}
+        onChange={(e) => select(e.target.value)}
+        disabled={disabled}
+        className="w-full bg-gray-900 border border-gray-700 rounded px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+      >
+        {!active && <option value="">— Select a profile —</option>}
+        <optgroup label="Presets">
+          {profiles.filter(p => p.builtIn).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </optgroup>
+        {userProfiles.length > 0 && (
+          <optgroup label="My Profiles">
+            {userProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      <div className="flex flex-wrap gap-1 mt-2">
+        <button onClick={save} disabled={disabled} className={buttonClass} title="Save the current settings to this profile">Save</button>
+        <button onClick={() => saveAs(active ? active.name : 'New profile')} disabled={disabled} className={buttonClass}>Save As…</button>
+        <button onClick={rename} disabled={disabled || !active || active.builtIn} className={buttonClass}>Rename</button>
+        <button onClick={duplicate} disabled={disabled || !active} className={buttonClass}>Duplicate</button>
+        <button onClick={remove} disabled={disabled || !active || active.builtIn} className={buttonClass}>Delete</button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mt-1">
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClass}>Import…</button>
+        <button
+          onClick={() => active && exportProfiles([active], `${sanitizeFilename(active.name)}.json`)}
+          disabled={!active}
+          className={buttonClass}
+        >
+          Export
+        </button>
+        <button
+          onClick={() => exportProfiles(userProfiles, 'paperscraper_profiles.json')}
+          disabled={userProfiles.length === 0}
+          className={buttonClass}
+        >
+          Export All
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={importProfiles} className="hidden" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Article, ScrapeConfig } from '../types';
+import { previewCleanupPrompt } from '../services/aiCleanup';
+import { estimateTokens } from '../services/llmProvider';
+
+interface PromptPreviewProps {
+  article: Article;
+  config: ScrapeConfig;
+  onClose: () => void;
+}
+
+// Dry run of the cleanup prompt for the selected article; nothing is sent
+export const PromptPreview: React.FC<PromptPreviewProps> = ({ article, config, onClose }) => {
+  const { prompt, parts } = previewCleanupPrompt(article, {
+    maxChunkChars: config.cleanupChunkChars,
+    template: config.cleanupPromptTemplate,
+  });
+
+  return (
+    <div className="mb-6 bg-gray-900 border border-gray-800 rounded">
+      <div className="flex justify-between items-center px-4 py-2 border-b border-gray-800 text-xs">
+        <span className="text-gray-400">
+          Cleanup prompt{parts > 1 && ` · part 1 of ${parts}`} · ~{estimateTokens(prompt)} tokens
+        </span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-300">Close</button>
+      </div>
+      <pre className="whitespace-pre-wrap font-mono text-xs text-gray-300 p-4 max-h-96 overflow-y-auto">{prompt}</pre>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Article } from '../types';
+import { ArticleFilters, EMPTY_FILTERS, hasActiveFilters } from '../services/searchIndex';
+
+interface SearchFiltersProps {
+  filters: ArticleFilters;
+  onChange: (filters: ArticleFilters) => void;
+  pages: { page: string; label: string }[];
+  terms: string[]; // Keywords and entities from the AI enrichment, offered as suggestions
+  matchCount: number;
+}
+
+const STATUSES: Article['status'][] = ['success', 'failed', 'pending', 'processing'];
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-blue-500 focus:outline-none';
+
+export const SearchFilters: React.FC<SearchFiltersProps> = ({ filters, onChange, pages, terms, matchCount }) => {
+  const update = <K extends keyof ArticleFilters>(key: K, value: ArticleFilters[K]) => {
+    onChange({ ...filters, [key]: value });
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      <input
+        type="search"
+        value={filters.query}
+        onChange={(e) => update('query', e.target.value)}
+        placeholder="Search titles and text..."
+        className={`w-full ${inputClass} py-1.5`}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => update('from', e.target.value)}
+          title="From date"
+          className={inputClass}
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => update('to', e.target.value)}
+          title="To date"
+          className={inputClass}
+        />
+        <select value={filters.page} onChange={(e) => update('page', e.target.value)} className={inputClass}>
+          <option value="">All pages</option>
+          {pages.map(({ page, label }) => (
+            <option key={page} value={page}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={filters.status}
+          onChange={(e) => update('status', e.target.value as ArticleFilters['status'])}
+          className={inputClass}
+        >
+          <option value="">Any status</option>
+          {STATUSES.map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+        {terms.length > 0 && (
+          <>
+            <input
+              type="search"
+              list="enrichment-terms"
+              value={filters.term}
+              onChange={(e) => update('term', e.target.value)}
+              placeholder="Keyword, person, organization or place..."
+              className={`col-span-2 ${inputClass}`}
+            />
+            <datalist id="enrichment-terms">
+              {terms.map(term => <option key={term} value={term} />)}
+            </datalist>
+          </>
+        )}
+      </div>
+      {hasActiveFilters(filters) && (
+        <div className="flex justify-between items-center text-xs text-gray-500">
+          <span>{matchCount} matching</span>
+          <button onClick={() => onChange(EMPTY_FILTERS)} className="hover:text-gray-300">Clear filters</button>
+        </div>
+      )}
+    </div>
+  );
+};
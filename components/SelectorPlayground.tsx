@@ -0,0 +1,222 @@
+import React from 'react';
+import { ArticleLink, ScrapeConfig } from '../types';
+import { formatUrl } from '../services/scraperService';
+import {
+  SelectorCheck,
+  analyzeArticlePage,
+  analyzeNodePage,
+  fetchPlaygroundPage,
+  highlightMatches,
+} from '../services/selectorPlayground';
+
+interface SelectorPlaygroundProps {
+  config: ScrapeConfig;
+}
+
+interface LoadedPage {
+  url: string;
+  doc: Document;
+}
+
+// Outline colors in the preview, also used for the legend
+const COLORS = {
+  pageLinks: '#3b82f6',
+  articleLinks: '#22c55e',
+  title: '#f59e0b',
+  content: '#a855f7',
+};
+
+const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono focus:border-blue-500 focus:outline-none';
+const buttonClass = 'px-2 py-1 text-xs rounded border border-gray-700 bg-gray-900 hover:bg-gray-700 text-gray-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const parseHtml = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+
+const CheckLine: React.FC<{ label: string; color: string; check: SelectorCheck; detail?: string }> = ({ label, color, check, detail }) => (
+  <p className="text-xs flex items-center gap-2">
+    <span className="inline-block w-2 h-2 rounded-sm shrink-0" style={{ background: color }} />
+    <span className="text-gray-400">{label}:</span>
+    {check.error
+      ? <span className="text-red-400">{check.error}</span>
+      : <span className={check.count > 0 ? 'text-gray-200' : 'text-yellow-400'}>{check.count} match{check.count === 1 ? '' : 'es'}{detail && ` · ${detail}`}</span>}
+  </p>
+);
+
+const Preview: React.FC<{ html: string }> = ({ html }) => (
+  // No allow-scripts: the page's own scripts never run
+  <iframe sandbox="" srcDoc={html} title="Page preview" className="w-full h-72 bg-white rounded border border-gray-700 mt-2" />
+);
+
+// One page to test against: fetched by URL or pasted as HTML
+const PageLoader: React.FC<{
+  label: string;
+  url: string;
+  onUrlChange: (url: string) => void;
+  config: ScrapeConfig;
+  onLoad: (page: LoadedPage | null) => void;
+}> = ({ label, url, onUrlChange, config, onLoad }) => {
+  const [pasting, setPasting] = React.useState(false);
+  const [html, setHtml] = React.useState('');
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  const fetchUrl = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const { doc } = await fetchPlaygroundPage(url, config);
+      onLoad({ url, doc });
+    } catch (e: any) {
+      setError(`Failed to load ${url}: ${e.message}`);
+      onLoad(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const paste = (value: string) => {
+    setHtml(value);
+    onLoad(value.trim() ? { url, doc: parseHtml(value) } : null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-xs text-gray-400">{label}</label>
+      <div className="flex gap-1">
+        <input type="text" value={url} onChange={(e) => onUrlChange(e.target.value)} placeholder="http://..." className={inputClass} />
+        <button onClick={fetchUrl} disabled={!url || loading} className={buttonClass}>{loading ? '...' : 'Load'}</button>
+        <button onClick={() => setPasting(!pasting)} className={buttonClass} title="Paste the page source instead of fetching it">Paste</button>
+      </div>
+      {pasting && (
+        <textarea
+          rows={4}
+          value={html}
+          onChange={(e) => paste(e.target.value)}
+          placeholder="Paste the page's HTML; the URL above is used to resolve relative links"
+          className={inputClass}
+        />
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Try the page, article, title and content selectors on one node page and one article page
+ * Results update as the selectors are edited; nothing is scraped.
+ */
+export const SelectorPlayground: React.FC<SelectorPlaygroundProps> = ({ config }) => {
+  const [nodeUrl, setNodeUrl] = React.useState(() => formatUrl(config.baseUrlPattern, config.startDate, 1));
+  const [articleUrl, setArticleUrl] = React.useState('');
+  const [nodePage, setNodePage] = React.useState<LoadedPage | null>(null);
+  const [articlePage, setArticlePage] = React.useState<LoadedPage | null>(null);
+  const [linkTitle, setLinkTitle] = React.useState(''); // Fallback title from the node page, as the scraper passes it
+  const [preview, setPreview] = React.useState<'node' | 'article' | null>(null);
+  const [articleLoading, setArticleLoading] = React.useState(false);
+  const [articleError, setArticleError] = React.useState('');
+
+  const { pageLinkSelector, articleLinkSelector, titleSelector, contentSelector } = config;
+
+  const nodeReport = React.useMemo(
+    () => nodePage && analyzeNodePage(nodePage.doc, nodePage.url, { pageLinkSelector, articleLinkSelector }),
+    [nodePage, pageLinkSelector, articleLinkSelector]
+  );
+  const articleReport = React.useMemo(
+    () => articlePage && analyzeArticlePage(articlePage.doc, articlePage.url, { titleSelector, contentSelector }, linkTitle),
+    [articlePage, titleSelector, contentSelector, linkTitle]
+  );
+  const previewHtml = React.useMemo(() => {
+    if (preview === 'node' && nodePage) {
+      return highlightMatches(nodePage.doc, nodePage.url, [
+        { selector: pageLinkSelector || 'a[href^="node_"]', color: COLORS.pageLinks },
+        { selector: articleLinkSelector, color: COLORS.articleLinks },
+      ]);
+    }
+    if (preview === 'article' && articlePage) {
+      return highlightMatches(articlePage.doc, articlePage.url, [
+        { selector: contentSelector, color: COLORS.content },
+        { selector: titleSelector, color: COLORS.title },
+      ]);
+    }
+    return '';
+  }, [preview, nodePage, articlePage, pageLinkSelector, articleLinkSelector, titleSelector, contentSelector]);
+
+  const openArticle = async (link: ArticleLink) => {
+    setArticleUrl(link.url);
+    setLinkTitle(link.title);
+    setArticleLoading(true);
+    setArticleError('');
+    try {
+      const { doc } = await fetchPlaygroundPage(link.url, config);
+      setArticlePage({ url: link.url, doc });
+    } catch (e: any) {
+      setArticleError(`Failed to load ${link.url}: ${e.message}`);
+      setArticlePage(null);
+    } finally {
+      setArticleLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-2">
+      <div>
+        <PageLoader label="Node page" url={nodeUrl} onUrlChange={setNodeUrl} config={config} onLoad={setNodePage} />
+        {nodeReport && (
+          <div className="mt-2 space-y-1">
+            <CheckLine label="Page links" color={COLORS.pageLinks} check={nodeReport.pageLinks} detail={`${nodeReport.pageLinks.urls.length} pages incl. this one`} />
+            <CheckLine label="Article links" color={COLORS.articleLinks} check={nodeReport.articleLinks} detail={`${nodeReport.articleLinks.links.length} articles`} />
+            {nodeReport.articleLinks.links.length > 0 && (
+              <ol className="max-h-40 overflow-y-auto bg-gray-900 border border-gray-800 rounded p-2 text-xs space-y-0.5 list-decimal list-inside">
+                {nodeReport.articleLinks.links.map(link => (
+                  <li key={link.url} className="truncate">
+                    <button onClick={() => openArticle(link)} className="text-blue-400 hover:underline" title={`Try the article selectors on ${link.url}`}>
+                      {link.title || <span className="italic text-gray-500">(no title) {link.url.split('/').pop()}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+            <button onClick={() => setPreview(preview === 'node' ? null : 'node')} className="text-xs text-gray-500 hover:text-gray-300">
+              {preview === 'node' ? 'Hide preview' : 'Show highlighted page'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <PageLoader
+          label={articleLoading ? 'Article page (loading...)' : 'Article page'}
+          url={articleUrl}
+          onUrlChange={setArticleUrl}
+          config={config}
+          onLoad={setArticlePage}
+        />
+        {articleError && <p className="text-xs text-red-400">{articleError}</p>}
+        {articleReport && (
+          <div className="mt-2 space-y-1">
+            <CheckLine label="Title" color={COLORS.title} check={articleReport.title} />
+            {articleReport.title.text && <p className="text-sm text-gray-200 pl-4">{articleReport.title.text}</p>}
+            {articleReport.title.count === 0 && articleReport.title.text && (
+              <p className="text-xs text-gray-500 pl-4">From the built-in Founder title cells, the link title or the page title</p>
+            )}
+            <CheckLine
+              label="Content"
+              color={COLORS.content}
+              check={articleReport.content}
+              detail={`${articleReport.content.markdown.length} characters, ${articleReport.content.images} images`}
+            />
+            {articleReport.content.markdown && (
+              <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap bg-gray-900 border border-gray-800 rounded p-2 text-xs text-gray-300">
+                {articleReport.content.markdown}
+              </pre>
+            )}
+            <button onClick={() => setPreview(preview === 'article' ? null : 'article')} className="text-xs text-gray-500 hover:text-gray-300">
+              {preview === 'article' ? 'Hide preview' : 'Show highlighted page'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {previewHtml && <Preview html={previewHtml} />}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Article } from '../types';
+
+interface TranslationPanelProps {
+  article: Article;
+}
+
+export const TranslationPanel: React.FC<TranslationPanelProps> = ({ article }) => {
+  const { translation, translateStatus, translateError } = article;
+
+  if (!translation) {
+    if (translateStatus === 'failed') {
+      return <p className="text-xs text-red-400 mb-4">AI translation failed: {translateError}</p>;
+    }
+    if (translateStatus === 'queued' || translateStatus === 'translating') {
+      return <p className="text-xs text-gray-500 mb-4">{translateStatus === 'queued' ? 'Queued for translation...' : 'Translating...'}</p>;
+    }
+    return null;
+  }
+
+  return (
+    <details className="mb-6 bg-gray-900 border border-gray-800 rounded">
+      <summary className="px-4 py-2 text-xs text-gray-400 cursor-pointer">
+        {translation.language} translation · {translation.model} · {new Date(translation.translatedAt).toLocaleString()}
+        {translateStatus === 'failed' && <span className="text-red-400"> · Last re-run failed: {translateError}</span>}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <h3 className="text-lg font-semibold text-white">{translation.title}</h3>
+        {translation.paragraphs.map((paragraph, index) => (
+          <p key={index} className="text-sm text-gray-300 leading-relaxed whitespace-pre-wrap">{paragraph}</p>
+        ))}
+      </div>
+    </details>
+  );
+};
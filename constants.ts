@@ -1,3 +1,5 @@
+import { DuplicateHandling, LlmProviderId, SiteProfile } from './types';
+
 export const DEFAULT_CONFIG = {
   // Pattern supports {YYYY}, {MM}, {DD}, and {PAGE} replacement
   // For jyb.cn, {PAGE} maps to node_1, node_2 etc. but actually only node_1 is predictable.
@@ -23,7 +25,22 @@ export const DEFAULT_CONFIG = {
   // Added #title and specific table structure classes. Removed plain h1 to avoid unrelated headers.
   titleSelector: 'td.font01, .yinbiaoti, .zhubiaoti, .fubiaoti, #artibodyTitle, #title, .title',
 
+  downloadImages: false, // Keep image URLs only; enable to store photos and bundle them in the export
+  duplicateHandling: 'flag' as DuplicateHandling, // Compare with articles from earlier runs and mark repeats for review
+  mergeContinuations: true, // Join 转第X版 / 上接第X版 fragments after each date
+  exportContinuationFragments: false,
+  downloadPageScans: false, // Full-page layout scans and PDFs, saved as <date>/pages/01.jpg, 01.pdf
+  pageImageSelector: 'img[usemap]', // Founder node pages put the clickable page scan behind an image map
+  pagePdfSelector: 'a[href$=".pdf"], a[href*=".pdf?"]',
+  charsetOverride: '', // Auto-detect: BOM, Content-Type header, <meta>, then statistical detection
+
   useProxy: true,
+  // Tried in order, failing over on errors. Prefix style or with a {url} placeholder (URL-encoded).
+  // Add LOCAL_PROXY_TEMPLATE at the top when running `npm run dev` or `npm run proxy`.
+  proxyTemplates: [
+    'https://api.allorigins.win/raw?url=',
+    'https://corsproxy.io/?url={url}',
+  ],
   delayMs: 3000, // Base delay (will be randomized)
   minDelay: 2000, // Minimum delay between requests (2 seconds)
   maxDelay: 6000, // Maximum delay between requests (6 seconds)
@@ -42,6 +59,66 @@ export const DEFAULT_CONFIG = {
   // User-Agent, Referer, DNT, Connection headers are forbidden and will be ignored by the browser
   enableRandomUserAgent: false, // Disabled by default (doesn't work with proxy)
   randomizeHeaders: false, // Disabled by default (doesn't work with proxy)
+
+  // Concurrency (off by default: strictly one request at a time)
+  enableConcurrency: false,
+  maxConcurrentPerHost: 2, // In-flight requests per host
+  minHostSpacingMs: 1500, // Minimum gap between request starts on the same host
+
+  // AI
+  llmProvider: 'gemini' as LlmProviderId,
+  llmModel: '', // Provider default (gemini-2.5-flash)
+  llmBaseUrl: '',
+  cleanupConcurrency: 2, // Articles cleaned in parallel
+  cleanupRequestsPerMinute: 10, // Stays under the free-tier quota of the Gemini API
+  cleanupMaxRetries: 3, // Retries per article before it is marked failed
+  cleanupChunkChars: 8000, // Characters per cleanup request; longer articles are split on paragraphs
+  cleanupPromptTemplate: '', // Built-in default (DEFAULT_CLEANUP_TEMPLATE)
+  translationLanguage: 'English',
 };
 
-export const PROXY_PREFIX = 'https://api.allorigins.win/raw?url=';
\ No newline at end of file
+export const PROXY_PREFIX = 'https://api.allorigins.win/raw?url=';
+
+// Served by the Vite dev server middleware and the standalone `npm run proxy` script
+export const LOCAL_PROXY_PATH = '/proxy';
+export const LOCAL_PROXY_TEMPLATE = `${LOCAL_PROXY_PATH}?url={url}`;
+
+const { startDate: _startDate, endDate: _endDate, ...DEFAULT_PROFILE_CONFIG } = DEFAULT_CONFIG;
+
+// Presets for common Founder e-paper layouts. Selected from the profile manager; duplicate to customize.
+export const BUILTIN_PROFILES: SiteProfile[] = [
+  {
+    id: 'jyb',
+    name: '中国教育报 (paper.jyb.cn)',
+    builtIn: true,
+    config: DEFAULT_PROFILE_CONFIG,
+  },
+  {
+    id: 'rmrb',
+    name: '人民日报 (paper.people.com.cn)',
+    builtIn: true,
+    config: {
+      ...DEFAULT_PROFILE_CONFIG,
+      // Newer Founder layout: layout/YYYYMM/DD/node_01.html, articles under ../../../content/
+      baseUrlPattern: 'http://paper.people.com.cn/rmrb/pc/layout/{YYYY}{MM}/{DD}/node_0{PAGE}.html',
+      pageLinkSelector: '#pageLink, a[href*="node_"]',
+      articleLinkSelector: '.news-list a[href*="content_"], area[href*="content_"]',
+      contentSelector: '#ozoom, .article',
+      titleSelector: '.article h1, .article h3, .article h2',
+    },
+  },
+  {
+    id: 'founder-classic',
+    name: 'Founder classic layout (node_N.htm / content_N.htm)',
+    builtIn: true,
+    config: {
+      ...DEFAULT_PROFILE_CONFIG,
+      // Replace host and paper path; the rest is the stock Founder layout
+      baseUrlPattern: 'http://epaper.example.com/html/{YYYY}-{MM}/{DD}/node_{PAGE}.htm',
+      pageLinkSelector: '#pageLink, a[href^="node_"]',
+      articleLinkSelector: 'a[href^="content_"], area[href^="content_"], #titleList a',
+      contentSelector: '#ozoom, founder-content, #article_content',
+      titleSelector: 'td.font01, .title, #title',
+    },
+  },
+];
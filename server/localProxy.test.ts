@@ -0,0 +1,117 @@
+import http from 'node:http';
+import { LookupAddress, LookupOptions } from 'node:dns';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Resolver, allowedOrigin, checkTarget, fetchChecked, handleProxyRequest, isBlockedAddress, pinnedLookup } from './localProxy';
+
+const PUBLIC: LookupAddress = { address: '203.0.113.9', family: 4 };
+const LOOPBACK: LookupAddress = { address: '127.0.0.1', family: 4 };
+
+// A DNS-rebinding host: public on the first lookup, loopback after that
+const rebindingResolver = () => {
+  let calls = 0;
+  const resolve: Resolver = async () => (calls++ === 0 ? [PUBLIC] : [LOOPBACK]);
+  return { resolve, calls: () => calls };
+};
+
+// Runs a socket lookup and returns what it answered
+const runLookup = (lookup: ReturnType<typeof pinnedLookup>, options: LookupOptions) => {
+  return new Promise<unknown>((resolve, reject) => {
+    lookup('rebind.example', options, (err, address, family) => (err ? reject(err) : resolve(family === undefined ? address : { address, family })));
+  });
+};
+
+describe('isBlockedAddress', () => {
+  it('blocks loopback, private and link-local addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1', '::ffff:7f00:1']
+      .forEach(address => expect(isBlockedAddress(address), address).toBe(true));
+  });
+
+  it('allows public addresses', () => {
+    ['1.1.1.1', '202.108.22.5', '2606:4700::1111', '::ffff:8.8.8.8']
+      .forEach(address => expect(isBlockedAddress(address), address).toBe(false));
+  });
+});
+
+describe('checkTarget', () => {
+  it('refuses loopback targets however they are written', async () => {
+    for (const url of ['http://127.0.0.1:5173/', 'http://127.1/', 'http://0x7f000001/', 'http://[::1]/']) {
+      expect(await checkTarget(new URL(url), []), url).toMatch(/private address/);
+    }
+  });
+
+  it('refuses a host once it resolves to a private address', async () => {
+    const { resolve } = rebindingResolver();
+    expect(await checkTarget(new URL('http://rebind.example/'), [], resolve)).toBeNull();
+    expect(await checkTarget(new URL('http://rebind.example/'), [], resolve)).toMatch(/private address \(127\.0\.0\.1\)/);
+  });
+
+  it('limits targets to the allowed hosts and their subdomains', async () => {
+    expect(await checkTarget(new URL('http://example.org/'), ['jyb.cn'])).toMatch(/not in PROXY_ALLOWED_HOSTS/);
+    expect(await checkTarget(new URL('http://evil-jyb.cn/'), ['jyb.cn'])).toMatch(/not in PROXY_ALLOWED_HOSTS/);
+  });
+});
+
+describe('pinnedLookup', () => {
+  it('answers with the checked addresses only', async () => {
+    const lookup = pinnedLookup([PUBLIC, { address: '2001:db8::9', family: 6 }]);
+    expect(await runLookup(lookup, {})).toEqual({ address: '203.0.113.9', family: 4 });
+    expect(await runLookup(lookup, { family: 6 })).toEqual({ address: '2001:db8::9', family: 6 });
+    expect(await runLookup(lookup, { all: true })).toEqual([PUBLIC, { address: '2001:db8::9', family: 6 }]);
+    await expect(runLookup(pinnedLookup([PUBLIC]), { family: 6 })).rejects.toThrow('No checked address');
+  });
+});
+
+describe('fetchChecked', () => {
+  it('connects to the address it checked, not to what the host resolves to later', async () => {
+    let hits = 0;
+    const local = http.createServer((req, res) => { hits++; res.end('internal'); });
+    await new Promise<void>(resolve => local.listen(0, '127.0.0.1', resolve));
+    const port = (local.address() as AddressInfo).port;
+    const { resolve, calls } = rebindingResolver();
+
+    // The checked address may or may not answer here; either way the loopback server must not be reached
+    await fetchChecked(new URL(`http://rebind.example:${port}/`), {}, { allowedHosts: [], resolve, signal: AbortSignal.timeout(1000) })
+      .catch(() => null);
+    await new Promise<void>(done => local.close(() => done()));
+
+    expect(calls()).toBe(1);
+    expect(hits).toBe(0);
+  });
+});
+
+describe('allowedOrigin', () => {
+  it('grants CORS to the app on localhost and to listed origins only', () => {
+    expect(allowedOrigin('http://localhost:5173', [])).toBe('http://localhost:5173');
+    expect(allowedOrigin('http://127.0.0.1:4173', [])).toBe('http://127.0.0.1:4173');
+    expect(allowedOrigin('https://scraper.example.org', ['https://scraper.example.org'])).toBe('https://scraper.example.org');
+    expect(allowedOrigin('https://evil.example.com', [])).toBeNull();
+    expect(allowedOrigin(undefined, [])).toBeNull();
+  });
+});
+
+describe('handleProxyRequest', () => {
+  let server: http.Server;
+  let base = '';
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => { handleProxyRequest(req, res); });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('refuses to relay to the machine itself', async () => {
+    const target = encodeURIComponent(`${base}/proxy?url=http://example.org/`);
+    const res = await fetch(`${base}/proxy?url=${target}`, { headers: { Origin: 'https://evil.example.com' } });
+    expect(res.status).toBe(403);
+    expect(res.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('answers preflight requests from the local app with its own origin', async () => {
+    const res = await fetch(`${base}/proxy`, { method: 'OPTIONS', headers: { Origin: 'http://localhost:5173' } });
+    expect(res.status).toBe(204);
+    expect(res.headers.get('access-control-allow-origin')).toBe('http://localhost:5173');
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Self-hosted CORS proxy
+ * GET /proxy?url=<encoded target> fetches the target server-side and returns it with CORS headers,
+ * so the browser app can run without any third-party proxy.
+ *
+ * Used two ways:
+ *   - as Vite dev-server middleware (see vite.config.ts), available at the same origin during `npm run dev`
+ *   - standalone: `npm run proxy -- --port 8787`, then add http://localhost:8787/proxy?url={url} as a proxy
+ *
+ * It is not an open relay: targets on loopback, private and link-local addresses are refused (every
+ * redirect hop is checked too, and the request is sent to the addresses that were checked, so a host
+ * can't pass with a public address and then resolve to a private one), PROXY_ALLOWED_HOSTS can narrow
+ * targets to the newspapers' hosts, and CORS is only granted to the app on localhost or to the origins
+ * listed in PROXY_ALLOWED_ORIGINS.
+ */
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, LookupFunction, isIP } from 'node:net';
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+import { Agent, fetch } from 'undici';
+
+// Keep in sync with LOCAL_PROXY_PATH in constants.ts (this file is part of the Node/Vite config project)
+const LOCAL_PROXY_PATH = '/proxy';
+
+const FORWARDED_HEADERS = ['content-type', 'content-length', 'last-modified', 'etag'];
+
+const MAX_REDIRECTS = 5;
+
+// Comma-separated lists from the environment, e.g. PROXY_ALLOWED_HOSTS=paper.jyb.cn,epaper.gmw.cn
+const envList = (name: string): string[] => {
+  return (process.env[name] || '').split(',').map(item => item.trim().toLowerCase()).filter(item => item);
+};
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+];
+const BLOCKED_IPV6: [string, number][] = [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+];
+
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_IPV4.forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+BLOCKED_IPV6.forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+export const isBlockedAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1 or ::ffff:7f00:1) is checked as the IPv4 address
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  const mappedHex = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return BLOCKED_ADDRESSES.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, 'ipv4');
+  }
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const isAllowedHost = (hostname: string, allowedHosts: string[]): boolean => {
+  if (allowedHosts.length === 0) return true;
+  return allowedHosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+};
+
+export type Resolver = (hostname: string) => Promise<LookupAddress[]>;
+
+const resolveAll: Resolver = hostname => lookup(hostname, { all: true });
+
+// A target the proxy refuses (answered with 403)
+class TargetError extends Error {}
+
+/**
+ * Addresses a target URL may be fetched from; throws a TargetError when it's refused
+ * Every address the host resolves to must be public.
+ */
+const vetTarget = async (target: URL, allowedHosts: string[], resolve: Resolver): Promise<LookupAddress[]> => {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') throw new TargetError('Only http/https targets are allowed');
+
+  const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (!isAllowedHost(hostname, allowedHosts)) throw new TargetError(`Host ${hostname} is not in PROXY_ALLOWED_HOSTS`);
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await resolve(hostname);
+  } catch (err: any) {
+    throw new TargetError(`Can't resolve ${hostname}: ${err.message}`);
+  }
+  if (addresses.length === 0) throw new TargetError(`Can't resolve ${hostname}: no addresses`);
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+  if (blocked) throw new TargetError(`Host ${hostname} resolves to a private address (${blocked.address})`);
+  return addresses;
+};
+
+/**
+ * Reason a target URL may not be fetched, or null when it's allowed
+ */
+export const checkTarget = async (
+  target: URL,
+  allowedHosts: string[] = envList('PROXY_ALLOWED_HOSTS'),
+  resolve: Resolver = resolveAll
+): Promise<string | null> => {
+  try {
+    await vetTarget(target, allowedHosts, resolve);
+    return null;
+  } catch (err) {
+    if (err instanceof TargetError) return err.message;
+    throw err;
+  }
+};
+
+/**
+ * Socket lookup that answers with the already checked addresses instead of resolving again
+ */
+export const pinnedLookup = (addresses: LookupAddress[]): LookupFunction => (hostname, options, callback) => {
+  const usable = options.family ? addresses.filter(({ family }) => family === options.family) : addresses;
+  if (usable.length === 0) {
+    callback(Object.assign(new Error(`No checked address for ${hostname}`), { code: 'ENOTFOUND' }), '', 0);
+  } else if (options.all) {
+    // The callback's declared type covers only the single-address form
+    (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, usable);
+  } else {
+    callback(null, usable[0].address, usable[0].family);
+  }
+};
+
+/**
+ * CORS origin to grant: the app served from localhost (any port) or one of PROXY_ALLOWED_ORIGINS
+ */
+export const allowedOrigin = (origin: string | undefined, allowedOrigins: string[] = envList('PROXY_ALLOWED_ORIGINS')): string | null => {
+  if (!origin) return null;
+  if (allowedOrigins.includes(origin.toLowerCase())) return origin;
+  try {
+    const { protocol, hostname } = new URL(origin);
+    const local = hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]';
+    return local && (protocol === 'http:' || protocol === 'https:') ? origin : null;
+  } catch {
+    return null;
+  }
+};
+
+const setCorsHeaders = (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Vary', 'Origin');
+  const origin = allowedOrigin(req.headers['origin']);
+  if (origin) res.setHeader('Access-Control-Allow-Origin', origin);
+};
+
+const sendError = (req: IncomingMessage, res: ServerResponse, status: number, message: string) => {
+  res.statusCode = status;
+  setCorsHeaders(req, res);
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end(message);
+};
+
+export interface FetchCheckedOptions {
+  allowedHosts?: string[]; // Defaults to PROXY_ALLOWED_HOSTS
+  resolve?: Resolver;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch a target the proxy allows
+ * Redirects are followed by hand so every hop is checked, and each hop connects only to the addresses
+ * its check resolved.
+ */
+export const fetchChecked = async (target: URL, headers: Record<string, string>, options: FetchCheckedOptions = {}) => {
+  const { allowedHosts = envList('PROXY_ALLOWED_HOSTS'), resolve = resolveAll, signal } = options;
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const addresses = await vetTarget(url, allowedHosts, resolve);
+    const dispatcher = new Agent({ connect: { lookup: pinnedLookup(addresses) } });
+    try {
+      const response = await fetch(url, { headers, redirect: 'manual', dispatcher, signal });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        // Read the body before the agent's connection is closed
+        return { status: response.status, headers: response.headers, body: Buffer.from(await response.arrayBuffer()) };
+      }
+      url = new URL(location, url);
+    } finally {
+      dispatcher.destroy().catch(() => undefined);
+    }
+  }
+  throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+};
+
+/**
+ * Connect-style handler; calls next() for requests that aren't for the proxy path
+ */
+export const handleProxyRequest = async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+  const requestUrl = new URL(req.url || '/', 'http://localhost');
+  if (requestUrl.pathname !== LOCAL_PROXY_PATH) {
+    if (next) next();
+    else sendError(req, res, 404, 'Not found');
+    return;
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    setCorsHeaders(req, res);
+    res.setHeader('Access-Control-Allow-Headers', 'Accept, Accept-Language');
+    res.end();
+    return;
+  }
+
+  const target = requestUrl.searchParams.get('url');
+  if (!target || !/^https?:\/\//i.test(target)) {
+    sendError(req, res, 400, 'Missing or invalid "url" parameter (http/https only)');
+    return;
+  }
+
+  try {
+    const upstream = await fetchChecked(new URL(target), {
+      // Pass through the app's randomized Accept headers when present
+      'Accept': String(req.headers['accept'] || 'text/html,*/*'),
+      'Accept-Language': String(req.headers['accept-language'] || 'zh-CN,zh;q=0.9'),
+      'User-Agent': String(req.headers['user-agent'] || 'Mozilla/5.0'),
+    });
+
+    const body = upstream.body;
+    res.statusCode = upstream.status;
+    setCorsHeaders(req, res);
+    FORWARDED_HEADERS.forEach(name => {
+      const value = upstream.headers.get(name);
+      if (value && name !== 'content-length') res.setHeader(name, value);
+    });
+    res.setHeader('Content-Length', body.length);
+    res.end(body);
+  } catch (err: any) {
+    if (err instanceof TargetError) sendError(req, res, 403, err.message);
+    else sendError(req, res, 502, `Upstream fetch failed: ${err.message}`);
+  }
+};
+
+/**
+ * Vite plugin mounting the proxy on the dev and preview servers
+ */
+export const localProxyPlugin = () => ({
+  name: 'paperscraper-local-proxy',
+  configureServer(server: { middlewares: { use: (fn: typeof handleProxyRequest) => void } }) {
+    server.middlewares.use(handleProxyRequest);
+  },
+  configurePreviewServer(server: { middlewares: { use: (fn: typeof handleProxyRequest) => void } }) {
+    server.middlewares.use(handleProxyRequest);
+  },
+});
+
+// Standalone mode
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const portIndex = process.argv.indexOf('--port');
+  const port = portIndex > -1 ? parseInt(process.argv[portIndex + 1]) : 8787;
+  const host = process.env.PROXY_HOST || '127.0.0.1';
+
+  http.createServer((req, res) => { handleProxyRequest(req, res); }).listen(port, host, () => {
+    console.log(`Local proxy listening on http://${host}:${port}${LOCAL_PROXY_PATH}?url={url}`);
+  });
+}
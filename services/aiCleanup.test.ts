@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { cleanContent, splitIntoChunks } from './aiCleanup';
+import { createMockProvider } from './llmProvider';
+import { PromptArticle } from './promptTemplate';
+
+const TEMPLATE = 'Clean up:\n<<{content}>>';
+
+const article = (content: string): PromptArticle => ({ title: '乡村教师队伍建设', date: '2024-03-01', page: '01', content });
+
+// The chunk a prompt built from TEMPLATE carries
+const chunkOf = (prompt: string): string => /<<([\s\S]*)>>/.exec(prompt)![1];
+
+// Answers with the chunk, passed through edit, and keeps the prompts it was sent
+const echoProvider = (edit: (chunk: string, part: number) => string = chunk => chunk) => {
+  const prompts: string[] = [];
+  const provider = createMockProvider({
+    respond: prompt => {
+      prompts.push(prompt);
+      return edit(chunkOf(prompt), prompts.length);
+    },
+  });
+  return { prompts, provider };
+};
+
+const sentence = (index: number) => `第${index}句讲述乡村学校的新变化和教师们的坚守与付出。`;
+
+describe('splitIntoChunks', () => {
+  it('keeps a short text whole and drops blank paragraphs', () => {
+    expect(splitIntoChunks('第一段。\n\n  \n\n第二段。', 100)).toEqual(['第一段。\n\n第二段。']);
+  });
+
+  it('breaks between paragraphs', () => {
+    const paragraphs = ['甲'.repeat(40), '乙'.repeat(40), '丙'.repeat(40)];
+    expect(splitIntoChunks(paragraphs.join('\n\n'), 100)).toEqual([`${paragraphs[0]}\n\n${paragraphs[1]}`, paragraphs[2]]);
+  });
+
+  it('splits an oversized paragraph at sentence ends', () => {
+    const paragraph = [1, 2, 3, 4, 5].map(sentence).join('');
+    const chunks = splitIntoChunks(paragraph, sentence(1).length * 2 + 5);
+    expect(chunks).toEqual([sentence(1) + sentence(2), sentence(3) + sentence(4), sentence(5)]);
+  });
+
+  it('cuts a sentence longer than the limit', () => {
+    const chunks = splitIntoChunks('教'.repeat(250), 100);
+    expect(chunks.map(chunk => chunk.length)).toEqual([100, 100, 50]);
+    expect(chunks.join('')).toBe('教'.repeat(250));
+  });
+});
+
+describe('cleanContent', () => {
+  it('sends a short article in one request and totals the usage', async () => {
+    const { prompts, provider } = echoProvider(chunk => `  ${chunk}  `);
+    const result = await cleanContent(provider, article('全省乡村教师待遇持续提高。'), { template: TEMPLATE });
+
+    expect(prompts).toEqual(['Clean up:\n<<全省乡村教师待遇持续提高。>>']);
+    expect(result).toMatchObject({ markdown: '全省乡村教师待遇持续提高。', chunks: 1, warning: undefined });
+    expect(result.usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('cleans long articles part by part with the end of the previous part as context', async () => {
+    const paragraphs = [1, 2, 3].map(index => sentence(index).repeat(3));
+    let waits = 0;
+    const { prompts, provider } = echoProvider(chunk => `${chunk}（已清理）`);
+    const result = await cleanContent(provider, article(paragraphs.join('\n\n')), {
+      template: TEMPLATE,
+      maxChunkChars: paragraphs[0].length + 10,
+      beforeNextChunk: async () => { waits++; },
+    });
+
+    expect(result.chunks).toBe(3);
+    expect(waits).toBe(2);
+    expect(result.markdown).toBe(paragraphs.map(paragraph => `${paragraph}（已清理）`).join('\n\n'));
+    expect(prompts[0]).toContain('This is part 1 of 3');
+    expect(prompts[0]).not.toContain('the previous part ended with');
+    expect(prompts[1]).toContain(`This is part 2 of 3`);
+    expect(prompts[1]).toContain(`the previous part ended with:\n${paragraphs[0]}（已清理）\n`);
+    expect(chunkOf(prompts[2])).toBe(paragraphs[2]);
+  });
+
+  it('passes only the end of a long previous part', async () => {
+    const paragraphs = ['甲'.repeat(900), '乙'.repeat(900)];
+    const { prompts, provider } = echoProvider();
+    await cleanContent(provider, article(paragraphs.join('\n\n')), { template: TEMPLATE, maxChunkChars: 1000 });
+    expect(prompts[1]).toContain(`the previous part ended with:\n${'甲'.repeat(400)}\n`);
+    expect(prompts[1]).not.toContain('甲'.repeat(401));
+  });
+
+  it('flags output much shorter than the input', async () => {
+    const { provider } = echoProvider(chunk => chunk.slice(0, Math.floor(chunk.length / 2)));
+    const result = await cleanContent(provider, article('教'.repeat(100)), { template: TEMPLATE });
+    expect(result.warning).toBe('Output has 50% of the input text; it may have been summarized or cut off');
+  });
+
+  it('names the parts that came back shortened', async () => {
+    const paragraphs = ['甲'.repeat(100), '乙'.repeat(100), '丙'.repeat(100)];
+    const { provider } = echoProvider((chunk, part) => (part === 2 ? chunk.slice(0, 80) : chunk));
+    const result = await cleanContent(provider, article(paragraphs.join('\n\n')), { template: TEMPLATE, maxChunkChars: 150 });
+    expect(result.warning).toBe('Part(s) 2 of 3 came back shorter than 85% of their input (93% overall)');
+  });
+
+  it('throws for an article without text', async () => {
+    await expect(cleanContent(createMockProvider(), article(' \n\n '))).rejects.toThrow('Article has no text to clean');
+  });
+});
@@ -0,0 +1,148 @@
+import { TokenUsage } from '../types';
+import { LlmProvider, addUsage } from './llmProvider';
+import { PromptArticle, cleanupTemplateOrDefault, promptVariables, renderPromptTemplate } from './promptTemplate';
+
+/**
+ * AI cleanup of article bodies
+ * Long articles are split on paragraph boundaries into chunks that fit the model's budget, cleaned
+ * one after another with the title and the end of the previous chunk as context, and joined again.
+ * Nothing is truncated; output that comes back much shorter than its input is flagged.
+ * The prompt comes from the user's template (see promptTemplate).
+ */
+
+export interface CleanResult {
+  markdown: string;
+  usage: TokenUsage;
+  chunks: number; // Requests the article took
+  warning?: string; // Set when the output looks shortened
+}
+
+export interface CleanOptions {
+  maxChunkChars?: number; // Input characters per request
+  template?: string; // Prompt template; empty = DEFAULT_CLEANUP_TEMPLATE
+  signal?: AbortSignal;
+  beforeNextChunk?: () => Promise<void>; // Awaited before every request after the first, e.g. for rate limiting
+}
+
+export const DEFAULT_CHUNK_CHARS = 8000;
+
+// Output with fewer letters and digits than this share of the input was probably summarized or cut off
+export const MIN_LENGTH_RATIO = 0.85;
+
+// How much of the previous cleaned chunk is passed along for continuity
+const CONTEXT_CHARS = 400;
+
+const SENTENCE_END = /(?<=[。！？!?；;.])/u;
+
+// Split an oversized paragraph at sentence ends, and hard-split sentences that are still too long
+const splitParagraph = (paragraph: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+  paragraph.split(SENTENCE_END).forEach(sentence => {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current);
+      current = '';
+    }
+    current += sentence;
+    while (current.length > maxChars) {
+      pieces.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  });
+  if (current) pieces.push(current);
+  return pieces;
+};
+
+/**
+ * Split text into chunks of at most maxChars, breaking between paragraphs where possible
+ */
+export const splitIntoChunks = (text: string, maxChars: number = DEFAULT_CHUNK_CHARS): string[] => {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph)
+    .flatMap(paragraph => (paragraph.length > maxChars ? splitParagraph(paragraph, maxChars) : [paragraph]));
+
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    if (current && current.length + 2 + paragraph.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Letters and digits in a text, ignoring whitespace and Markdown syntax
+ */
+export const contentLength = (text: string): number => (text.match(/[\p{L}\p{N}]/gu) || []).length;
+
+// Long articles: tell the model which part it is looking at, then the user's template for the part
+const partNotice = (part: number, parts: number, previous: string): string => `This is part ${part} of ${parts} of a long article. Apply the rules below to this part only and keep every sentence of it.
+${part === 1 ? 'Later parts are sent separately, so do not add an ending or a summary.' : 'The title was already added with part 1; do not add it again, continue where the previous part ended.'}
+${previous ? `
+For context only (do not repeat it), the previous part ended with:
+${previous}
+` : ''}
+---
+
+`;
+
+/**
+ * The prompt for one part of an article; the whole article when parts is 1
+ */
+export const cleanupPrompt = (article: PromptArticle, template: string, chunk: string, part: number = 1, parts: number = 1, previous: string = ''): string => {
+  const prompt = renderPromptTemplate(template, promptVariables(article, chunk));
+  return parts === 1 ? prompt : partNotice(part, parts, previous) + prompt;
+};
+
+/**
+ * Dry run: the first prompt an article would be cleaned with, and how many requests it would take
+ */
+export const previewCleanupPrompt = (article: PromptArticle, options: Pick<CleanOptions, 'maxChunkChars' | 'template'> = {}): { prompt: string; parts: number } => {
+  const chunks = splitIntoChunks(article.content, options.maxChunkChars || DEFAULT_CHUNK_CHARS);
+  const template = cleanupTemplateOrDefault(options.template);
+  return { prompt: cleanupPrompt(article, template, chunks[0] || '', 1, Math.max(1, chunks.length)), parts: chunks.length };
+};
+
+/**
+ * Clean up an article body with the given provider; throws when the provider fails
+ */
+export const cleanContent = async (provider: LlmProvider, article: PromptArticle, options: CleanOptions = {}): Promise<CleanResult> => {
+  const rawText = article.content;
+  const template = cleanupTemplateOrDefault(options.template);
+  const chunks = splitIntoChunks(rawText, options.maxChunkChars || DEFAULT_CHUNK_CHARS);
+  if (chunks.length === 0) throw new Error('Article has no text to clean');
+  let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const cleaned: string[] = [];
+  const shortened: number[] = [];
+
+  for (let index = 0; index < chunks.length; index++) {
+    if (index > 0 && options.beforeNextChunk) await options.beforeNextChunk();
+    if (options.signal?.aborted) throw new Error('Request aborted');
+    const previous = index > 0 ? cleaned[index - 1].slice(-CONTEXT_CHARS) : '';
+    const prompt = cleanupPrompt(article, template, chunks[index], index + 1, chunks.length, previous);
+    const result = await provider.generate({ prompt, signal: options.signal });
+    usage = addUsage(usage, result.usage);
+
+    const text = result.text.trim();
+    const expected = contentLength(chunks[index]) * MIN_LENGTH_RATIO;
+    if (contentLength(text) < expected) shortened.push(index + 1);
+    cleaned.push(text);
+  }
+
+  const markdown = cleaned.join('\n\n');
+  const ratio = contentLength(markdown) / Math.max(1, contentLength(rawText));
+  let warning: string | undefined;
+  if (shortened.length > 0) {
+    warning = chunks.length === 1
+      ? `Output has ${Math.round(ratio * 100)}% of the input text; it may have been summarized or cut off`
+      : `Part(s) ${shortened.join(', ')} of ${chunks.length} came back shorter than ${Math.round(MIN_LENGTH_RATIO * 100)}% of their input (${Math.round(ratio * 100)}% overall)`;
+  }
+
+  return { markdown, usage, chunks: chunks.length, warning };
+};
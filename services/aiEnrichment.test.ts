@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ENRICH_CHARS, enrichContent } from './aiEnrichment';
+import { createMockProvider } from './llmProvider';
+
+const ANSWER = JSON.stringify({
+  summary: '全省推进乡村教师队伍建设。',
+  keywords: ['乡村教师', '待遇', '招聘', '培训', '教育'],
+  people: [],
+  organizations: ['省教育厅'],
+  places: ['乡村'],
+});
+
+// Answers every prompt with ANSWER and keeps the prompts it was sent
+const recordingProvider = () => {
+  const prompts: string[] = [];
+  const provider = createMockProvider({ respond: prompt => { prompts.push(prompt); return ANSWER; } });
+  return { prompts, provider };
+};
+
+describe('enrichContent', () => {
+  it('sends a short article whole, without a warning', async () => {
+    const { prompts, provider } = recordingProvider();
+    const result = await enrichContent(provider, '全省乡村教师待遇持续提高。', '乡村教师');
+    expect(result.warning).toBeUndefined();
+    expect(result.enrichment.keywords).toHaveLength(5);
+    expect(prompts[0]).toContain('全省乡村教师待遇持续提高。');
+  });
+
+  it('sends the leading paragraphs of a long article and flags the cut', async () => {
+    const paragraph = '教'.repeat(9000);
+    const text = [paragraph, paragraph, paragraph, paragraph].join('\n\n');
+    const { prompts, provider } = recordingProvider();
+    const result = await enrichContent(provider, text, '长文');
+    const sent = [paragraph, paragraph, paragraph].join('\n\n');
+    expect(sent.length).toBeLessThanOrEqual(MAX_ENRICH_CHARS);
+    expect(prompts[0]).toContain(`${sent}\n`);
+    expect(prompts[0]).not.toContain(`${sent}\n\n${paragraph}`);
+    expect(result.warning).toBe(`summary and tags cover only the first ${sent.length} of ${text.length} characters`);
+  });
+
+  it('rejects keywords that are fewer than five once repeats are dropped', async () => {
+    const padded = JSON.stringify({ ...JSON.parse(ANSWER), keywords: ['教育', '教育', ' 教育 ', '招聘', '招聘 '] });
+    const provider = createMockProvider({ respond: () => padded });
+    await expect(enrichContent(provider, '正文', '标题')).rejects.toThrow('Enrichment has 2 distinct keyword(s), expected at least 5');
+  });
+
+  it('rejects an answer with fewer than five keywords', async () => {
+    const short = JSON.stringify({ ...JSON.parse(ANSWER), keywords: ['乡村教师'] });
+    const provider = createMockProvider({ respond: () => short });
+    await expect(enrichContent(provider, '正文', '标题')).rejects.toThrow();
+  });
+});
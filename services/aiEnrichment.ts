@@ -0,0 +1,129 @@
+import { ArticleEnrichment, TokenUsage } from '../types';
+import { LlmProvider } from './llmProvider';
+import { JsonSchema, parseJsonOutput, validateJson } from './jsonSchema';
+import { markdownToText } from './htmlToMarkdown';
+
+/**
+ * AI enrichment of articles: a short Chinese summary, keywords, and the people, organizations
+ * and places mentioned. The model answers in JSON, which is validated against ENRICHMENT_SCHEMA.
+ * Articles longer than MAX_ENRICH_CHARS are enriched from their beginning, and the result says so.
+ */
+
+export interface EnrichResult {
+  enrichment: ArticleEnrichment;
+  usage: TokenUsage;
+  warning?: string; // Set when only the beginning of the article was sent
+}
+
+// Characters of an article sent in the enrichment request
+export const MAX_ENRICH_CHARS = 30000;
+
+const MIN_KEYWORDS = 5;
+const MAX_KEYWORDS = 10;
+
+const nameList = (description: string): JsonSchema => ({ type: 'array', description, items: { type: 'string', minLength: 1 } });
+
+export const ENRICHMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1, description: '2-3 sentence summary in Simplified Chinese' },
+    keywords: {
+      type: 'array', minItems: MIN_KEYWORDS, maxItems: MAX_KEYWORDS, items: { type: 'string', minLength: 1 },
+      description: `${MIN_KEYWORDS}-${MAX_KEYWORDS} keywords`,
+    },
+    people: nameList('Full names of people mentioned'),
+    organizations: nameList('Organizations mentioned: schools, universities, ministries, companies, ...'),
+    places: nameList('Places mentioned: countries, provinces, cities, districts, ...'),
+  },
+  required: ['summary', 'keywords', 'people', 'organizations', 'places'],
+};
+
+const enrichmentPrompt = (rawText: string, title: string, truncated: boolean): string => `
+      You are an editor at a Chinese newspaper archive. Annotate the following article.
+
+      Return a JSON object with exactly these fields:
+      - "summary": a summary of 2 to 3 sentences in Simplified Chinese.
+      - "keywords": 5 to 10 keywords or key phrases, most important first.
+      - "people": full names of the people mentioned, as written in the article.
+      - "organizations": organizations mentioned (schools, universities, ministries, companies, ...), using their full names.
+      - "places": places mentioned (countries, provinces, cities, districts, ...).
+      Use empty lists when nothing fits. List each name once. Return ONLY the JSON.
+${truncated ? `
+      The article is long; only its beginning is given below.
+` : ''}
+      Title: ${title}
+      Article:
+      ${rawText}
+    `;
+
+// Whole paragraphs up to maxChars; a first paragraph longer than that is cut
+const leadingParagraphs = (text: string, maxChars: number): string => {
+  if (text.length <= maxChars) return text;
+  const end = text.lastIndexOf('\n\n', maxChars);
+  return text.slice(0, end > 0 ? end : maxChars);
+};
+
+// Trimmed, without blanks and repeats
+const cleanList = (values: string[]): string[] => {
+  return Array.from(new Set(values.map(value => value.trim()).filter(value => value)));
+};
+
+/**
+ * Validate a model answer and turn it into an ArticleEnrichment; throws listing the problems
+ */
+export const parseEnrichment = (text: string, model: string): ArticleEnrichment => {
+  let value: unknown;
+  try {
+    value = parseJsonOutput(text);
+  } catch (e: any) {
+    throw new Error(`Enrichment is not valid JSON: ${e.message}`);
+  }
+
+  const errors = validateJson(value, ENRICHMENT_SCHEMA);
+  if (errors.length > 0) throw new Error(`Enrichment doesn't match the schema: ${errors.slice(0, 5).join('; ')}`);
+
+  const result = value as Pick<ArticleEnrichment, 'summary' | 'keywords' | 'people' | 'organizations' | 'places'>;
+  // The schema counts repeats (and padded copies) too
+  const summary = result.summary.trim();
+  const keywords = cleanList(result.keywords);
+  if (!summary) throw new Error('Enrichment has an empty summary');
+  if (keywords.length < MIN_KEYWORDS) {
+    throw new Error(`Enrichment has ${keywords.length} distinct keyword(s), expected at least ${MIN_KEYWORDS}`);
+  }
+
+  return {
+    summary,
+    keywords,
+    people: cleanList(result.people),
+    organizations: cleanList(result.organizations),
+    places: cleanList(result.places),
+    model,
+    enrichedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Summarize and tag an article with the given provider; throws when the provider fails or the answer is invalid
+ */
+export const enrichContent = async (provider: LlmProvider, content: string, title: string, signal?: AbortSignal): Promise<EnrichResult> => {
+  const rawText = markdownToText(content);
+  const sent = leadingParagraphs(rawText, MAX_ENRICH_CHARS);
+  const truncated = sent.length < rawText.length;
+  const { text, usage } = await provider.generate({
+    prompt: enrichmentPrompt(sent, title, truncated),
+    jsonSchema: ENRICHMENT_SCHEMA,
+    signal,
+  });
+  const warning = truncated
+    ? `summary and tags cover only the first ${sent.length} of ${rawText.length} characters`
+    : undefined;
+  return { enrichment: parseEnrichment(text, provider.model), usage, warning };
+};
+
+/**
+ * Every keyword and entity of an enrichment, for search and filtering
+ */
+export const enrichmentTerms = (enrichment: ArticleEnrichment | undefined): string[] => {
+  if (!enrichment) return [];
+  return [...enrichment.keywords, ...enrichment.people, ...enrichment.organizations, ...enrichment.places];
+};
@@ -0,0 +1,139 @@
+import { Article, ArticleTranslation, TokenUsage } from '../types';
+import { LlmProvider, addUsage } from './llmProvider';
+import { JsonSchema, parseJsonOutput, validateJson } from './jsonSchema';
+import { DEFAULT_CHUNK_CHARS } from './aiCleanup';
+
+/**
+ * AI translation of articles, paragraph by paragraph
+ * The model gets the article's paragraphs as a JSON list and must answer with exactly as many
+ * translations, so every translation lines up with its source paragraph for bilingual export.
+ * Long articles are sent in batches of whole paragraphs.
+ */
+
+export interface TranslateResult {
+  translation: ArticleTranslation;
+  usage: TokenUsage;
+}
+
+export interface TranslateOptions {
+  language?: string; // Target language; default English
+  maxChunkChars?: number; // Source characters per request
+  signal?: AbortSignal;
+  beforeNextChunk?: () => Promise<void>; // Awaited before every request after the first, e.g. for rate limiting
+}
+
+export const DEFAULT_TRANSLATION_LANGUAGE = 'English';
+
+/**
+ * The paragraphs of an article body, as translated and aligned
+ */
+export const sourceParagraphs = (content: string): string[] => {
+  return content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph);
+};
+
+// Consecutive paragraphs up to maxChars per batch; a longer paragraph goes alone rather than being split
+const paragraphBatches = (paragraphs: string[], maxChars: number): string[][] => {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+  paragraphs.forEach(paragraph => {
+    if (current.length > 0 && length + paragraph.length > maxChars) {
+      batches.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(paragraph);
+    length += paragraph.length;
+  });
+  if (current.length > 0 || batches.length === 0) batches.push(current);
+  return batches;
+};
+
+const translationSchema = (count: number, withTitle: boolean): JsonSchema => ({
+  type: 'object',
+  properties: {
+    ...(withTitle ? { title: { type: 'string', minLength: 1, description: 'Translated title' } as JsonSchema } : {}),
+    paragraphs: {
+      type: 'array',
+      minItems: count,
+      maxItems: count,
+      items: { type: 'string' },
+      description: 'One translation per source paragraph, in order',
+    },
+  },
+  required: withTitle ? ['title', 'paragraphs'] : ['paragraphs'],
+});
+
+const translationPrompt = (paragraphs: string[], title: string, language: string, part: number, parts: number): string => `
+      You are a professional translator of Chinese newspaper articles. Translate the article below into ${language}.
+
+      Return a JSON object with these fields:
+${part === 1 ? `      - "title": the translated title.\n` : ''}      - "paragraphs": a list of exactly ${paragraphs.length} translations, one for each source paragraph, in the same order.
+
+      Rules:
+      1. Translate every paragraph completely; do not summarize, merge or split paragraphs.
+      2. Keep Markdown formatting such as headers, emphasis and image links.
+      3. Write Chinese personal names in pinyin (family name first) and use the established ${language} names of organizations and places.
+      4. Return ONLY the JSON.
+${parts > 1 ? `
+      This is part ${part} of ${parts} of the article; the other parts are translated separately.
+` : ''}
+      Title: ${title}
+      Source paragraphs (JSON):
+      ${JSON.stringify(paragraphs)}
+    `;
+
+/**
+ * Validate a model answer for one batch; throws listing the problems
+ */
+export const parseTranslation = (text: string, count: number, withTitle: boolean): { title?: string; paragraphs: string[] } => {
+  let value: unknown;
+  try {
+    value = parseJsonOutput(text);
+  } catch (e: any) {
+    throw new Error(`Translation is not valid JSON: ${e.message}`);
+  }
+
+  const errors = validateJson(value, translationSchema(count, withTitle));
+  if (errors.length > 0) throw new Error(`Translation doesn't match the schema: ${errors.slice(0, 5).join('; ')}`);
+
+  const result = value as { title?: string; paragraphs: string[] };
+  return { title: result.title?.trim(), paragraphs: result.paragraphs.map(paragraph => paragraph.trim()) };
+};
+
+/**
+ * Translate an article's title and body with the given provider; throws when the provider fails or an answer is invalid
+ */
+export const translateContent = async (
+  provider: LlmProvider,
+  article: Pick<Article, 'title' | 'content'>,
+  options: TranslateOptions = {}
+): Promise<TranslateResult> => {
+  const language = options.language?.trim() || DEFAULT_TRANSLATION_LANGUAGE;
+  const batches = paragraphBatches(sourceParagraphs(article.content), options.maxChunkChars || DEFAULT_CHUNK_CHARS);
+  let usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  const paragraphs: string[] = [];
+  let title = '';
+
+  for (let index = 0; index < batches.length; index++) {
+    if (index > 0 && options.beforeNextChunk) await options.beforeNextChunk();
+    if (options.signal?.aborted) throw new Error('Request aborted');
+    const batch = batches[index];
+    const withTitle = index === 0;
+    const result = await provider.generate({
+      prompt: translationPrompt(batch, article.title, language, index + 1, batches.length),
+      jsonSchema: translationSchema(batch.length, withTitle),
+      signal: options.signal,
+    });
+    usage = addUsage(usage, result.usage);
+
+    const parsed = parseTranslation(result.text, batch.length, withTitle);
+    if (withTitle) title = parsed.title || '';
+    paragraphs.push(...parsed.paragraphs);
+  }
+
+  return {
+    translation: { language, title, paragraphs, model: provider.model, translatedAt: new Date().toISOString() },
+    usage,
+  };
+};
@@ -143,9 +143,10 @@ export class RateLimiter {
 
   /**
    * Check if we've hit the daily article limit
+   * `pending` counts articles already being fetched by concurrent workers
    * Returns: { canProceed: boolean, remaining?: number }
    */
-  checkDailyLimit(): { canProceed: boolean; remaining?: number } {
+  checkDailyLimit(pending: number = 0): { canProceed: boolean; remaining?: number } {
     this.resetIfNewDay();
 
     if (this.dailyArticleLimit === 0) {
@@ -153,7 +154,8 @@ export class RateLimiter {
       return { canProceed: true };
     }
 
-    if (this.processedArticlesToday >= this.dailyArticleLimit) {
+    const used = this.processedArticlesToday + pending;
+    if (used >= this.dailyArticleLimit) {
       return {
         canProceed: false,
         remaining: 0,
@@ -162,7 +164,7 @@ export class RateLimiter {
 
     return {
       canProceed: true,
-      remaining: this.dailyArticleLimit - this.processedArticlesToday,
+      remaining: this.dailyArticleLimit - used,
     };
   }
 
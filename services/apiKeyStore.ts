@@ -0,0 +1,33 @@
+import { LlmProviderId } from '../types';
+
+/**
+ * API keys per LLM provider, kept in localStorage on this device only
+ * They are deliberately not part of ScrapeConfig, so they never end up in profiles or exports.
+ */
+
+const STORAGE_KEY = 'paperscraper.apiKeys';
+
+const loadKeys = (): { [provider: string]: string } => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.warn('Failed to read saved API keys', e);
+    return {};
+  }
+};
+
+export const loadApiKey = (provider: LlmProviderId): string => loadKeys()[provider] || '';
+
+export const saveApiKey = (provider: LlmProviderId, key: string) => {
+  const keys = loadKeys();
+  if (key) keys[provider] = key;
+  else delete keys[provider];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+};
+
+/**
+ * Saved key, falling back to the build-time VITE_API_KEY for Gemini
+ */
+export const resolveApiKey = (provider: LlmProviderId): string => {
+  return loadApiKey(provider) || (provider === 'gemini' ? import.meta.env.VITE_API_KEY || '' : '');
+};
@@ -0,0 +1,130 @@
+import { ArticleMeta, PageLabel } from '../types';
+import { markdownToText } from './htmlToMarkdown';
+
+/**
+ * Newspaper metadata parsing
+ * Page labels from the Founder page navigation (第02版：新闻) and bylines/columns from article pages.
+ */
+
+// Elements some Founder templates use for the byline and column
+const BYLINE_SELECTOR = 'founder-author, .author, .byline, #author';
+const COLUMN_SELECTOR = 'founder-column, .column, .lanmu';
+
+const PAGE_LABEL_PATTERN = /(第?\s*[A-Za-z]?\d{1,3}\s*版)\s*[：:\-—|]?\s*(.*)$/;
+
+// 本报讯（记者 张三 通讯员 李四）/ 本报北京12月3日讯（记者 张三）/ 新华社北京12月3日电（记者 张三）
+const DATELINE_PATTERN = /^[■●◆▲□\s]*((?:本报|新华社|中新社)([\u4E00-\u9FA5]{2,8}?)?(?:\d{1,2}月\d{1,2}日)?[电讯])\s*[（(]([^）)]{2,60})[）)]/;
+
+// 本报记者 张三 李四 / ■本报记者 张三 北京报道 / 通讯员 李四
+const BYLINE_LINE_PATTERN = /^[■●◆▲□\s]*((?:本报|本刊)?(?:特约|见习|实习)?(?:记者|通讯员|特约撰稿人)[\s\S]{1,40})$/;
+
+// Sentence punctuation never appears in a byline
+const SENTENCE_PUNCTUATION = /[，。；：！？,;:!?]/;
+
+const CREDIT_ROLE_PATTERN = /((?:特约|见习|实习)?记者|通讯员|实习生|特约撰稿人)/;
+
+const REPORT_LOCATION_PATTERN = /\s([\u4E00-\u9FA5]{2,6})(?:报道|发自)$/;
+
+// Column headers printed as 【教育观察】 or [教育观察]
+const BRACKET_COLUMN_PATTERN = /^[【\[]([^】\]]{2,16})[】\]]$/;
+
+const collapse = (str: string): string => str.replace(/\s+/g, ' ').trim();
+
+/**
+ * Split a page navigation label like "第02版：新闻" into the page label and section name
+ */
+export const parsePageLabel = (text: string): PageLabel | null => {
+  const cleaned = collapse(text);
+  if (!cleaned) return null;
+
+  const match = PAGE_LABEL_PATTERN.exec(cleaned);
+  if (!match) return { label: cleaned };
+
+  const label = match[1].replace(/\s+/g, '');
+  const section = match[2].trim();
+  return section ? { label, section } : { label };
+};
+
+/**
+ * Reporter names from the credits of a byline, preferring reporters over correspondents
+ * e.g. "记者 张三 李四 通讯员 王五" -> "张三 李四"
+ */
+const authorFromCredits = (credits: string): string | undefined => {
+  // split() with a capture group alternates [before, role, names, role, names, ...]
+  const parts = credits.replace(/^(本报|本刊)/, '').split(CREDIT_ROLE_PATTERN);
+  if (parts.length === 1) return collapse(credits) || undefined;
+
+  const segments: { role: string; names: string }[] = [];
+  for (let i = 1; i < parts.length; i += 2) {
+    segments.push({ role: parts[i], names: collapse(parts[i + 1].replace(/[，,、]/g, ' ')) });
+  }
+  const reporter = segments.find(s => s.role.endsWith('记者') && s.names) || segments.find(s => s.names);
+  return reporter ? reporter.names : undefined;
+};
+
+const parseBylineText = (text: string): ArticleMeta | null => {
+  const line = collapse(text);
+
+  const dateline = DATELINE_PATTERN.exec(line);
+  if (dateline) {
+    const [, prefix, location, credits] = dateline;
+    return {
+      byline: `${prefix}（${collapse(credits)}）`,
+      author: authorFromCredits(credits),
+      location: location || undefined,
+    };
+  }
+
+  // A byline paragraph is short; longer ones are body text that happens to start with 记者
+  if (line.length > 40 || SENTENCE_PUNCTUATION.test(line)) return null;
+  const bylineLine = BYLINE_LINE_PATTERN.exec(line);
+  if (bylineLine) {
+    let credits = bylineLine[1];
+    const location = REPORT_LOCATION_PATTERN.exec(credits);
+    if (location) credits = credits.slice(0, location.index);
+    return {
+      byline: collapse(bylineLine[1]),
+      author: authorFromCredits(credits),
+      location: location ? location[1] : undefined,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Byline, author, filing location and column of an article
+ * Looks at Founder byline/column elements first, then the first paragraphs of the Markdown body.
+ */
+export const extractArticleMeta = (doc: Document, content: string, introTitle: string = ''): ArticleMeta => {
+  const meta: ArticleMeta = {};
+
+  const bylineEl = doc.querySelector(BYLINE_SELECTOR);
+  const bylineText = bylineEl ? collapse(bylineEl.textContent || '') : '';
+  if (bylineText) {
+    Object.assign(meta, parseBylineText(bylineText) || { byline: bylineText, author: authorFromCredits(bylineText) });
+  }
+
+  const columnEl = doc.querySelector(COLUMN_SELECTOR);
+  const columnText = columnEl ? collapse(columnEl.textContent || '') : '';
+  if (columnText) meta.column = columnText.replace(/^[【\[]|[】\]]$/g, '');
+
+  // The intro title (引题) often carries the column, e.g. 【教育观察】
+  const introColumn = BRACKET_COLUMN_PATTERN.exec(collapse(introTitle));
+  if (!meta.column && introColumn) meta.column = introColumn[1];
+
+  const paragraphs = markdownToText(content).split(/\n{2,}/).slice(0, 3);
+  for (const paragraph of paragraphs) {
+    const column = BRACKET_COLUMN_PATTERN.exec(collapse(paragraph));
+    if (column) {
+      if (!meta.column) meta.column = column[1];
+      continue;
+    }
+    if (!meta.byline) {
+      const parsed = parseBylineText(paragraph);
+      if (parsed) Object.assign(meta, parsed);
+    }
+  }
+
+  return meta;
+};
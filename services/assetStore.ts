@@ -0,0 +1,25 @@
+import { ASSET_STORE, withStore } from './db';
+
+/**
+ * Downloaded binaries (article images, page scans) kept in IndexedDB until export
+ */
+
+export interface StoredAsset {
+  url: string; // Source URL (key)
+  data: Uint8Array;
+  contentType: string;
+}
+
+export const saveAsset = async (asset: StoredAsset): Promise<void> => {
+  await withStore(ASSET_STORE, 'readwrite', (store) => store.put(asset));
+};
+
+export const loadAsset = (url: string): Promise<StoredAsset | undefined> => {
+  return withStore<StoredAsset | undefined>(ASSET_STORE, 'readonly', (store) => store.get(url));
+};
+
+export const deleteAssets = async (urls: string[]): Promise<void> => {
+  for (const url of urls) {
+    await withStore(ASSET_STORE, 'readwrite', (store) => store.delete(url));
+  }
+};
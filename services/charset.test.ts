@@ -0,0 +1,89 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { decodeBody, normalizeCharset } from './charset';
+
+// The same sentence saved in each encoding (see __fixtures__/charset)
+const SIMPLIFIED = '教育部发布新学期工作要点，要求各地学校做好开学准备，确保学生安全返校。';
+const TRADITIONAL = '教育部發布新學期工作要點，要求各地學校做好開學準備，確保學生安全返校。';
+
+const fixture = (name: string): ArrayBuffer => {
+  const bytes = readFileSync(new URL(`./__fixtures__/charset/${name}`, import.meta.url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+describe('decodeBody', () => {
+  it('detects undeclared UTF-8', () => {
+    const { text, charset } = decodeBody(fixture('utf8.htm'), 'text/html');
+    expect(charset).toEqual({ encoding: 'utf-8', source: 'detected' });
+    expect(text).toContain(SIMPLIFIED);
+  });
+
+  it('trusts a byte order mark over the header and <meta>', () => {
+    const { text, charset } = decodeBody(fixture('utf8-bom.htm'), 'text/html; charset=gbk');
+    expect(charset).toEqual({ encoding: 'utf-8', source: 'bom' });
+    expect(text.startsWith('<html>')).toBe(true); // BOM stripped
+    expect(text).toContain(SIMPLIFIED);
+  });
+
+  it('uses the Content-Type charset, decoding GBK as GB18030', () => {
+    const { text, charset } = decodeBody(fixture('gbk.htm'), 'text/html; charset=GBK');
+    expect(charset).toEqual({ encoding: 'gb18030', source: 'header' });
+    expect(text).toContain(SIMPLIFIED);
+  });
+
+  it('falls back to <meta http-equiv> when there is no header charset', () => {
+    const { text, charset } = decodeBody(fixture('gbk-meta.htm'), 'text/html');
+    expect(charset).toEqual({ encoding: 'gb18030', source: 'meta' });
+    expect(text).toContain(SIMPLIFIED);
+  });
+
+  it('reads an unquoted <meta charset>', () => {
+    const { text, charset } = decodeBody(fixture('meta-charset.htm'), null);
+    expect(charset).toEqual({ encoding: 'big5', source: 'meta' });
+    expect(text).toContain(TRADITIONAL);
+  });
+
+  it('ignores a header that claims UTF-8 for GBK bytes', () => {
+    const { text, charset } = decodeBody(fixture('gbk.htm'), 'text/html; charset=utf-8');
+    expect(charset).toEqual({ encoding: 'gb18030', source: 'detected' });
+    expect(text).toContain(SIMPLIFIED);
+  });
+
+  it('ignores an ISO-8859-1 server default in the header', () => {
+    const { charset } = decodeBody(fixture('gbk-meta.htm'), 'text/html; charset=ISO-8859-1');
+    expect(charset).toEqual({ encoding: 'gb18030', source: 'meta' });
+  });
+
+  it('detects undeclared GB18030, including four-byte characters', () => {
+    const { text, charset } = decodeBody(fixture('gb18030.htm'), null);
+    expect(charset).toEqual({ encoding: 'gb18030', source: 'detected' });
+    expect(text).toContain(`${SIMPLIFIED}𠮷`);
+  });
+
+  it('detects undeclared Big5', () => {
+    const { text, charset } = decodeBody(fixture('big5.htm'), null);
+    expect(charset).toEqual({ encoding: 'big5', source: 'detected' });
+    expect(text).toContain(TRADITIONAL);
+  });
+
+  it('lets the profile override win over every declaration', () => {
+    const { text, charset } = decodeBody(fixture('meta-charset.htm'), 'text/html; charset=utf-8', 'big5-hkscs');
+    expect(charset).toEqual({ encoding: 'big5', source: 'override' });
+    expect(text).toContain(TRADITIONAL);
+  });
+
+  it('ignores an override it can\'t decode with', () => {
+    const { charset } = decodeBody(fixture('gbk-meta.htm'), null, 'x-not-a-charset');
+    expect(charset).toEqual({ encoding: 'gb18030', source: 'meta' });
+  });
+});
+
+describe('normalizeCharset', () => {
+  it('maps the labels Chinese sites declare', () => {
+    expect(normalizeCharset('GB2312')).toBe('gb18030');
+    expect(normalizeCharset('"cp936"')).toBe('gb18030');
+    expect(normalizeCharset('cp950')).toBe('big5');
+    expect(normalizeCharset('UTF8')).toBe('utf-8');
+    expect(normalizeCharset('x-unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Character-set resolution for fetched pages
+ * Order: per-profile override, byte order mark, Content-Type header, <meta> tags, statistical detection.
+ * Covers the encodings found on Chinese e-papers: UTF-8, GBK/GB2312/GB18030 and Big5 (HK/TW).
+ */
+import { CharsetSource } from '../types';
+
+export interface CharsetResult {
+  encoding: string; // WHATWG encoding name actually used for decoding
+  source: CharsetSource;
+}
+
+// Labels that browsers don't know but Chinese sites still declare
+const LABEL_ALIASES: { [label: string]: string } = {
+  'cp936': 'gbk',
+  'ms936': 'gbk',
+  'gb_2312': 'gbk',
+  'euc-cn': 'gbk',
+  'big5-hkscs': 'big5',
+  'cp950': 'big5',
+};
+
+// How many bytes to scan for <meta> declarations
+const META_SCAN_BYTES = 4096;
+
+// Frequent hanzi in both simplified and traditional text. Real text decoded with the right
+// encoding is dense in these; mojibake from the wrong one almost never is.
+const COMMON_HANZI = new Set(Array.from(
+  // Simplified
+  '的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于着下自之年过发后作里用道行所然家种事成方多经么去法学如都同现当没动面起看定天分还进好小部其些主样理心她本前开但因只从想实日军者意无力它与长把机十民第公此已工使情明性知全三又关点正业外将两高间由问很最重并物手应战向头文体政美相见被利什二等产或新己制身果加西斯月话合回特代内信表化老给世位次度门任常先海通教儿原东声提立及比员解水名真论处走义各入几口认条平系气题活尔更别打女变四神总何电数安少报才结反受目太量再感建务做接必场件' +
+  '计管期市直德资命山金指克许统区保至队形社便空决治展马科司五基眼书非则听白却界达光放强即像难且权思王象完设式色路记南品住告类求据程北边死张该交规万取拉格望觉术领共确传师观清今切院让识候带导争运笑飞风步改收根干造言联持组每济车亲极林服快办议往元英士证近失转夫令准布始怎呢存未远叫台单影具罗字爱击流备兵连调深商算质团集百需价花党华城石级整府离况亚请技际约示复病息究线似官火断精满支视消越器容照须九增研写称企八功吗包片史委乎查轻易早曾除农找装广显吧阿李标谈吃图念六引历首医局突专费号尽另周较注语仅考落青随选列' +
+  // Traditional forms
+  '們這個為來說時會對發後從學經當動還進開麼現實與無點區應關係於過問題國際間機構濟報導記師'
+));
+
+const CJK_RANGE = /[\u4E00-\u9FFF]/;
+
+/**
+ * Map a declared label to a WHATWG encoding name, or null if it can't be decoded here
+ */
+export const normalizeCharset = (label: string): string | null => {
+  const cleaned = label.trim().toLowerCase().replace(/^["']|["']$/g, '');
+  const aliased = LABEL_ALIASES[cleaned] || cleaned;
+  try {
+    const encoding = new TextDecoder(aliased).encoding;
+    // GB18030 is a superset of GBK/GB2312; decoding with it never loses characters
+    return encoding === 'gbk' ? 'gb18030' : encoding;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const detectBom = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  return null;
+};
+
+export const charsetFromContentType = (contentType: string | null | undefined): string | null => {
+  if (!contentType) return null;
+  const match = /charset\s*=\s*["']?\s*([\w.:-]+)/i.exec(contentType);
+  return match ? normalizeCharset(match[1]) : null;
+};
+
+/**
+ * Find <meta charset=...> or <meta http-equiv="Content-Type" content="...; charset=..."> near the top of the page
+ * Handles quoted and unquoted values.
+ */
+export const charsetFromMeta = (bytes: Uint8Array): string | null => {
+  // Tags and attribute values are ASCII, so a single-byte decode is enough to find them
+  const head = new TextDecoder('windows-1252').decode(bytes.subarray(0, META_SCAN_BYTES));
+  const metaTags = head.match(/<meta\b[^>]*>/gi) || [];
+  for (const tag of metaTags) {
+    const match = /charset\s*=\s*["']?\s*([\w.:-]+)/i.exec(tag);
+    if (match) {
+      const encoding = normalizeCharset(match[1]);
+      if (encoding) return encoding;
+    }
+  }
+  return null;
+};
+
+const isValidUtf8 = (bytes: Uint8Array): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Score how plausible a decoding is as Chinese text
+ */
+const scoreDecoding = (text: string): number => {
+  let score = 0;
+  for (const ch of text) {
+    if (ch === '\uFFFD') score -= 20;
+    else if (COMMON_HANZI.has(ch)) score += 2;
+    else if (CJK_RANGE.test(ch)) score -= 1; // Rare hanzi are typical of mojibake
+    else if (ch >= '\uE000' && ch <= '\uF8FF') score -= 5; // Private use area
+  }
+  return score;
+};
+
+/**
+ * Statistical fallback: valid UTF-8 wins, otherwise the legacy Chinese encoding whose decoding
+ * reads most like real text
+ */
+export const detectCharset = (bytes: Uint8Array): string => {
+  if (isValidUtf8(bytes)) return 'utf-8';
+
+  const candidates = ['gb18030', 'big5'];
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  for (const encoding of candidates) {
+    const score = scoreDecoding(new TextDecoder(encoding).decode(bytes));
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Decide which encoding to decode a response with
+ */
+export const resolveCharset = (bytes: Uint8Array, contentType?: string | null, override?: string): CharsetResult => {
+  if (override) {
+    const encoding = normalizeCharset(override);
+    if (encoding) return { encoding, source: 'override' };
+  }
+
+  const bom = detectBom(bytes);
+  if (bom) return { encoding: bom, source: 'bom' };
+
+  const declared: [string | null, CharsetSource][] = [
+    [charsetFromContentType(contentType), 'header'],
+    [charsetFromMeta(bytes), 'meta'],
+  ];
+
+  for (const [encoding, source] of declared) {
+    if (!encoding) continue;
+    // Proxies and misconfigured servers often claim UTF-8 for GBK pages; trust the bytes instead
+    if (encoding === 'utf-8' && !isValidUtf8(bytes)) continue;
+    // ISO-8859-1 in a header is usually just a server default, never right for a Chinese page
+    if (encoding === 'windows-1252' && source === 'header') continue;
+    return { encoding, source };
+  }
+
+  return { encoding: detectCharset(bytes), source: 'detected' };
+};
+
+/**
+ * Decode a response body with the resolved charset
+ */
+export const decodeBody = (buffer: ArrayBuffer, contentType?: string | null, override?: string): { text: string; charset: CharsetResult } => {
+  const bytes = new Uint8Array(buffer);
+  const charset = resolveCharset(bytes, contentType, override);
+  // TextDecoder strips the BOM itself
+  const text = new TextDecoder(charset.encoding).decode(bytes);
+  return { text, charset };
+};
@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Article } from '../types';
+import type { CleanResult } from './aiCleanup';
+import { CleanFunction, CleanupQueue, CleanupQueueOptions } from './cleanupQueue';
+
+const article = (id: string, fields: Partial<Article> = {}): Article => ({
+  id,
+  date: '2024-03-01',
+  page: '01',
+  title: `文章${id}`,
+  content: '正文',
+  markdown: '',
+  url: `http://paper.example.cn/html/2024-03/01/content_${id}.htm`,
+  images: [],
+  scrapedAt: '2024-03-01T00:00:00.000Z',
+  status: 'success',
+  ...fields,
+});
+
+const cleaned = (markdown: string): CleanResult => ({ markdown, usage: { inputTokens: 10, outputTokens: 5 }, chunks: 1 });
+
+// Lets the queue's workers run up to their next pending promise
+const flush = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// A promise the test settles by hand
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: Error) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+// Queue with stub task functions and a sleep that records its delays and returns at once
+const createQueue = (options: Partial<CleanupQueueOptions> = {}) => {
+  const sleeps: number[] = [];
+  const queue = new CleanupQueue({
+    clean: async article => cleaned(`# ${article.title}`),
+    enrich: async () => { throw new Error('not used'); },
+    translate: async () => { throw new Error('not used'); },
+    retryBaseMs: 100,
+    sleep: async ms => { sleeps.push(ms); },
+    ...options,
+  });
+  queue.configure({ concurrency: 1, requestsPerMinute: 0, maxRetries: 2 });
+
+  const statuses: Record<string, string[]> = {};
+  queue.on('statusChanged', ({ task, id, status }) => {
+    (statuses[`${task}:${id}`] ??= []).push(status);
+  });
+  const drained = () => new Promise(resolve => queue.on('drained', resolve));
+  return { queue, sleeps, statuses, drained };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('CleanupQueue', () => {
+  it('reports queued, cleaning and cleaned, and totals the usage', async () => {
+    const { queue, statuses, drained } = createQueue();
+    const results: string[] = [];
+    queue.on('articleCleaned', ({ id, markdown }) => results.push(`${id}:${markdown}`));
+    const done = drained();
+
+    expect(queue.enqueue([article('1'), article('2')])).toBe(2);
+    await done;
+
+    expect(statuses).toEqual({ 'clean:1': ['queued', 'cleaning', 'cleaned'], 'clean:2': ['queued', 'cleaning', 'cleaned'] });
+    expect(results).toEqual(['1:# 文章1', '2:# 文章2']);
+    expect(queue.progress).toMatchObject({ total: 2, done: 2, failed: 0, usage: { inputTokens: 20, outputTokens: 10 } });
+  });
+
+  it('retries with exponential backoff and succeeds', async () => {
+    let calls = 0;
+    const clean: CleanFunction = async () => {
+      if (++calls < 3) throw new Error('HTTP 503');
+      return cleaned('ok');
+    };
+    const { queue, sleeps, statuses, drained } = createQueue({ clean });
+    const done = drained();
+    queue.enqueue([article('1')]);
+    await done;
+
+    expect(calls).toBe(3);
+    expect(sleeps).toEqual([100, 200]);
+    expect(statuses['clean:1']).toEqual(['queued', 'cleaning', 'cleaning', 'cleaning', 'cleaned']);
+  });
+
+  it('marks the article failed once the retries are used up', async () => {
+    const clean = vi.fn<CleanFunction>(async () => { throw new Error('HTTP 503'); });
+    const { queue, drained } = createQueue({ clean });
+    const changes: { status: string; error?: string }[] = [];
+    queue.on('statusChanged', ({ status, error }) => changes.push({ status, error }));
+    const done = drained();
+    queue.enqueue([article('1')]);
+    await done;
+
+    expect(clean).toHaveBeenCalledTimes(3);
+    expect(changes.at(-1)).toEqual({ status: 'failed', error: 'HTTP 503' });
+    expect(queue.progress).toMatchObject({ done: 0, failed: 1 });
+  });
+
+  it('runs no more tasks at once than the concurrency allows', async () => {
+    const gates = [0, 1, 2, 3].map(() => deferred<CleanResult>());
+    let running = 0;
+    let most = 0;
+    const clean: CleanFunction = async article => {
+      most = Math.max(most, ++running);
+      const result = await gates[Number(article.id)].promise;
+      running--;
+      return result;
+    };
+    const { queue, drained } = createQueue({ clean });
+    queue.configure({ concurrency: 2 });
+    const done = drained();
+    queue.enqueue(['0', '1', '2', '3'].map(id => article(id)));
+
+    await flush();
+    expect(queue.progress).toMatchObject({ running: 2, queued: 2 });
+    for (const gate of gates) {
+      gate.resolve(cleaned('ok'));
+      await flush();
+    }
+    await done;
+    expect(most).toBe(2);
+  });
+
+  it('starts nothing new while paused', async () => {
+    const first = deferred<CleanResult>();
+    const started: string[] = [];
+    const clean: CleanFunction = async article => {
+      started.push(article.id);
+      return article.id === '1' ? first.promise : cleaned('ok');
+    };
+    const { queue, statuses, drained } = createQueue({ clean });
+    queue.enqueue([article('1'), article('2')]);
+    await flush();
+    queue.pause();
+
+    first.resolve(cleaned('ok'));
+    await flush();
+    expect(started).toEqual(['1']);
+    expect(statuses['clean:2']).toEqual(['queued']);
+    expect(queue.progress).toMatchObject({ paused: true, queued: 1, running: 0 });
+
+    const done = drained();
+    queue.resume();
+    await done;
+    expect(started).toEqual(['1', '2']);
+  });
+
+  it('aborts work in flight on cancel and restores the previous statuses', async () => {
+    let signal: AbortSignal | undefined;
+    const clean: CleanFunction = (_article, taskSignal) => {
+      signal = taskSignal;
+      return new Promise((_resolve, reject) => taskSignal.addEventListener('abort', () => reject(new Error('Request aborted'))));
+    };
+    const { queue, statuses } = createQueue({ clean });
+    const logs: string[] = [];
+    queue.on('log', ({ message }) => logs.push(message));
+    queue.enqueue([article('1', { cleanStatus: 'cleaned' }), article('2', { cleanStatus: 'failed' }), article('3')]);
+    await flush();
+
+    queue.cancel();
+    await flush();
+
+    expect(signal?.aborted).toBe(true);
+    expect(statuses).toEqual({
+      'clean:1': ['queued', 'cleaning', 'cleaned'],
+      'clean:2': ['queued', 'failed'],
+      'clean:3': ['queued', 'raw'],
+    });
+    expect(logs).toContain('AI processing cancelled, 3 task(s) not run');
+    expect(queue.idle).toBe(true);
+    expect(queue.progress).toMatchObject({ done: 0, failed: 0 });
+  });
+
+  it('spaces request starts by the requests-per-minute budget', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const { queue, sleeps, drained } = createQueue();
+    queue.configure({ concurrency: 3, requestsPerMinute: 60 });
+    const done = drained();
+    queue.enqueue([article('1'), article('2'), article('3')]);
+    await done;
+
+    expect(sleeps).toEqual([1000, 2000]);
+  });
+
+  it('ignores articles already queued or running for the same task', async () => {
+    const gate = deferred<CleanResult>();
+    const { queue } = createQueue({ clean: () => gate.promise });
+    expect(queue.enqueue([article('1'), article('2')])).toBe(2);
+    await flush();
+
+    expect(queue.enqueue([article('1'), article('2'), article('3')])).toBe(1); // 1 running, 2 queued
+    expect(queue.enqueue([article('1')], 'enrich')).toBe(1); // A different task for the same article
+    expect(queue.progress.total).toBe(4);
+
+    queue.cancel();
+  });
+});
@@ -0,0 +1,322 @@
+import { Article, CleanStatus, EnrichStatus, LogEntry, ScrapeConfig, TokenUsage, TranslateStatus } from '../types';
+import { DEFAULT_CONFIG } from '../constants';
+import { addUsage } from './llmProvider';
+import type { CleanResult } from './aiCleanup';
+import type { EnrichResult } from './aiEnrichment';
+import type { TranslateResult } from './aiTranslation';
+
+/**
+ * Batch AI processing of articles: cleanup, enrichment and translation
+ * Runs queued tasks with bounded concurrency and a requests-per-minute budget, retries failed
+ * requests with exponential backoff and keeps a running total of the tokens the API reports.
+ * Progress is reported through typed events, like the ScrapeEngine.
+ */
+
+export type AiTask = 'clean' | 'enrich' | 'translate';
+
+export interface CleanupProgress {
+  total: number; // Tasks enqueued since the queue was last idle
+  queued: number;
+  running: number;
+  done: number;
+  failed: number;
+  paused: boolean;
+  usage: TokenUsage; // Running total for the lifetime of the queue
+}
+
+export type TaskStatusChange =
+  | { task: 'clean'; id: string; status: CleanStatus; error?: string }
+  | { task: 'enrich'; id: string; status: EnrichStatus; error?: string }
+  | { task: 'translate'; id: string; status: TranslateStatus; error?: string };
+
+export interface CleanupQueueEvents {
+  log: { message: string; type: LogEntry['type'] };
+  statusChanged: TaskStatusChange;
+  articleCleaned: { id: string; markdown: string; usage: TokenUsage; warning?: string };
+  articleEnriched: { id: string; result: EnrichResult };
+  articleTranslated: { id: string; result: TranslateResult };
+  progress: CleanupProgress;
+  drained: CleanupProgress; // Nothing left queued or in flight
+}
+
+type Listener<K extends keyof CleanupQueueEvents> = (payload: CleanupQueueEvents[K]) => void;
+
+// waitForSlot respects the rate limit for every request after the first, for articles sent in chunks
+export type CleanFunction = (article: Article, signal: AbortSignal, waitForSlot: () => Promise<void>) => Promise<CleanResult>;
+export type EnrichFunction = (article: Article, signal: AbortSignal) => Promise<EnrichResult>;
+export type TranslateFunction = (article: Article, signal: AbortSignal, waitForSlot: () => Promise<void>) => Promise<TranslateResult>;
+
+export interface CleanupSettings {
+  concurrency: number;
+  requestsPerMinute: number; // 0 = unlimited
+  maxRetries: number;
+}
+
+export interface CleanupQueueOptions {
+  clean: CleanFunction;
+  enrich: EnrichFunction;
+  translate: TranslateFunction;
+  retryBaseMs?: number; // First backoff delay, doubled on every retry
+  sleep?: (ms: number) => Promise<void>;
+}
+
+interface QueueItem {
+  task: AiTask;
+  article: Article;
+  previousStatus: string; // Settled status restored when the item is cancelled
+}
+
+// Article status while a task runs and once it succeeded
+const TASKS = {
+  clean: { running: 'cleaning', done: 'cleaned', name: 'cleanup' },
+  enrich: { running: 'enriching', done: 'enriched', name: 'enrichment' },
+  translate: { running: 'translating', done: 'translated', name: 'translation' },
+} as const;
+
+const itemKey = (task: AiTask, id: string) => `${task}:${id}`;
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Queue settings from the AI cleanup part of a config
+ */
+export const cleanupSettingsFromConfig = (config: ScrapeConfig): CleanupSettings => ({
+  concurrency: Math.max(1, config.cleanupConcurrency || (DEFAULT_CONFIG.cleanupConcurrency as number)),
+  requestsPerMinute: config.cleanupRequestsPerMinute ?? (DEFAULT_CONFIG.cleanupRequestsPerMinute as number),
+  maxRetries: config.cleanupMaxRetries ?? (DEFAULT_CONFIG.cleanupMaxRetries as number),
+});
+
+/**
+ * Status to persist or export: queued and cleaning only exist while a queue is running
+ */
+export const settledCleanStatus = (status: CleanStatus | undefined): CleanStatus => {
+  return status === 'cleaned' || status === 'failed' ? status : 'raw';
+};
+
+export const settledEnrichStatus = (status: EnrichStatus | undefined): EnrichStatus => {
+  return status === 'enriched' || status === 'failed' ? status : 'raw';
+};
+
+export const settledTranslateStatus = (status: TranslateStatus | undefined): TranslateStatus => {
+  return status === 'translated' || status === 'failed' ? status : 'raw';
+};
+
+const settledStatus = (task: AiTask, article: Article): string => {
+  if (task === 'clean') return settledCleanStatus(article.cleanStatus);
+  if (task === 'enrich') return settledEnrichStatus(article.enrichStatus);
+  return settledTranslateStatus(article.translateStatus);
+};
+
+export class CleanupQueue {
+  private listeners: { [K in keyof CleanupQueueEvents]?: Set<Listener<K>> } = {};
+  private settings: CleanupSettings = cleanupSettingsFromConfig(DEFAULT_CONFIG);
+  private sleep: (ms: number) => Promise<void>;
+  private retryBaseMs: number;
+
+  private pending: QueueItem[] = [];
+  private inFlight = new Map<string, QueueItem>();
+  private abortController = new AbortController(); // Replaced on cancel; workers of a cancelled run see it aborted
+  private nextStart = 0; // Earliest timestamp the next request may start
+  private paused = false;
+  private counts = { total: 0, done: 0, failed: 0 };
+  private usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  constructor(private options: CleanupQueueOptions) {
+    this.sleep = options.sleep || defaultSleep;
+    this.retryBaseMs = options.retryBaseMs ?? 2000;
+  }
+
+  /**
+   * Subscribe to a queue event. Returns an unsubscribe function.
+   */
+  on<K extends keyof CleanupQueueEvents>(event: K, listener: Listener<K>): () => void {
+    // Narrowed to the one key so the set can be stored without a cast
+    const listeners: { [P in K]?: Set<Listener<P>> } = this.listeners;
+    const set = listeners[event] ?? new Set<Listener<K>>();
+    set.add(listener);
+    listeners[event] = set;
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  private emit<K extends keyof CleanupQueueEvents>(event: K, payload: CleanupQueueEvents[K]) {
+    this.listeners[event]?.forEach((listener) => listener(payload));
+  }
+
+  private log(message: string, type: LogEntry['type'] = 'info') {
+    this.emit('log', { message, type });
+  }
+
+  private setStatus(task: AiTask, id: string, status: string, error?: string) {
+    this.emit('statusChanged', { task, id, status, error } as TaskStatusChange);
+  }
+
+  /**
+   * Update concurrency, rate and retries; applies to requests started from now on
+   */
+  configure(settings: Partial<CleanupSettings>) {
+    this.settings = { ...this.settings, ...settings };
+    this.pump();
+  }
+
+  get progress(): CleanupProgress {
+    return {
+      total: this.counts.total,
+      queued: this.pending.length,
+      running: this.inFlight.size,
+      done: this.counts.done,
+      failed: this.counts.failed,
+      paused: this.paused,
+      usage: { ...this.usage },
+    };
+  }
+
+  get idle(): boolean {
+    return this.pending.length === 0 && this.inFlight.size === 0;
+  }
+
+  /**
+   * Queue a task for articles; articles with the same task already queued or in flight are ignored
+   * Returns the number of articles added.
+   */
+  enqueue(articles: Article[], task: AiTask = 'clean'): number {
+    if (this.idle) this.counts = { total: 0, done: 0, failed: 0 };
+
+    const queued = new Set(this.pending.map((item) => itemKey(item.task, item.article.id)));
+    const added = articles.filter((article) => {
+      const key = itemKey(task, article.id);
+      return !queued.has(key) && !this.inFlight.has(key);
+    });
+    added.forEach((article) => {
+      this.pending.push({ task, article, previousStatus: settledStatus(task, article) });
+      this.setStatus(task, article.id, 'queued');
+    });
+    this.counts.total += added.length;
+
+    this.pump();
+    return added.length;
+  }
+
+  /**
+   * Stop starting new articles; requests in flight finish (including their retries)
+   */
+  pause() {
+    this.paused = true;
+    this.emitProgress();
+  }
+
+  resume() {
+    this.paused = false;
+    this.pump();
+  }
+
+  /**
+   * Drop everything queued and abort requests in flight; those articles go back to their previous status
+   */
+  cancel() {
+    this.abortController.abort();
+    this.abortController = new AbortController();
+
+    const dropped = [...this.pending, ...this.inFlight.values()];
+    this.pending = [];
+    this.inFlight.clear();
+    this.paused = false;
+    dropped.forEach((item) => this.setStatus(item.task, item.article.id, item.previousStatus));
+
+    if (dropped.length > 0) this.log(`AI processing cancelled, ${dropped.length} task(s) not run`, 'warning');
+    this.emitProgress();
+    this.emit('drained', this.progress);
+  }
+
+  private emitProgress() {
+    this.emit('progress', this.progress);
+  }
+
+  private pump() {
+    while (!this.paused && this.pending.length > 0 && this.inFlight.size < this.settings.concurrency) {
+      const item = this.pending.shift() as QueueItem;
+      this.inFlight.set(itemKey(item.task, item.article.id), item);
+      this.process(item, this.abortController.signal);
+    }
+    this.emitProgress();
+  }
+
+  // Reserve the next start slot before sleeping so concurrent workers queue up behind it
+  private async waitForSlot() {
+    const spacing = this.settings.requestsPerMinute > 0 ? 60000 / this.settings.requestsPerMinute : 0;
+    const now = Date.now();
+    const start = Math.max(now, this.nextStart);
+    this.nextStart = start + spacing;
+    if (start > now) await this.sleep(start - now);
+  }
+
+  // Run the item's task and report its result; throws like the task function
+  private async runTask(item: QueueItem, signal: AbortSignal): Promise<TokenUsage | null> {
+    const { article } = item;
+    if (item.task === 'clean') {
+      const result = await this.options.clean(article, signal, () => this.waitForSlot());
+      if (signal.aborted) return null;
+      if (result.warning) this.log(`Check "${article.title}": ${result.warning}`, 'warning');
+      this.emit('articleCleaned', { id: article.id, markdown: result.markdown, usage: result.usage, warning: result.warning });
+      return result.usage;
+    }
+    if (item.task === 'translate') {
+      const result = await this.options.translate(article, signal, () => this.waitForSlot());
+      if (signal.aborted) return null;
+      this.emit('articleTranslated', { id: article.id, result });
+      return result.usage;
+    }
+    const result = await this.options.enrich(article, signal);
+    if (signal.aborted) return null;
+    if (result.warning) this.log(`Check "${article.title}": ${result.warning}`, 'warning');
+    this.emit('articleEnriched', { id: article.id, result });
+    return result.usage;
+  }
+
+  private async process(item: QueueItem, signal: AbortSignal) {
+    const { task, article } = item;
+    const { running, done, name } = TASKS[task];
+    let error = '';
+
+    for (let attempt = 0; attempt <= this.settings.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delay = this.retryBaseMs * 2 ** (attempt - 1);
+        this.log(`Retrying "${article.title}" in ${Math.round(delay / 1000)}s (${attempt}/${this.settings.maxRetries}): ${error}`, 'warning');
+        await this.sleep(delay);
+      }
+
+      await this.waitForSlot();
+      if (signal.aborted) return;
+      this.setStatus(task, article.id, running);
+
+      try {
+        const usage = await this.runTask(item, signal);
+        if (!usage) return;
+
+        this.usage = addUsage(this.usage, usage);
+        this.counts.done++;
+        this.setStatus(task, article.id, done);
+        this.finish(item);
+        return;
+      } catch (e: any) {
+        if (signal.aborted) return;
+        error = e?.message || String(e);
+      }
+    }
+
+    this.counts.failed++;
+    this.setStatus(task, article.id, 'failed', error);
+    this.log(`AI ${name} failed for "${article.title}": ${error}`, 'error');
+    this.finish(item);
+  }
+
+  private finish(item: QueueItem) {
+    this.inFlight.delete(itemKey(item.task, item.article.id));
+    this.pump();
+    if (this.idle) {
+      this.log(`AI processing finished: ${this.counts.done} done, ${this.counts.failed} failed`, this.counts.failed > 0 ? 'warning' : 'success');
+      this.emit('drained', this.progress);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { mergeContinuations, normalizePageRef } from './continuations';
+
+const article = (id: string, page: string, title: string, content: string, order = 0): Article => ({
+  id,
+  date: '2024-03-01',
+  page,
+  title,
+  content,
+  markdown: '',
+  url: `http://paper.example.cn/html/2024-03/01/content_${id}.htm`,
+  order,
+  images: [],
+  scrapedAt: '2024-03-01T00:00:00.000Z',
+  status: 'success',
+});
+
+const FRONT = article('1', '01', '乡村教师队伍建设迈出新步伐', '全省乡村教师待遇持续提高。\n\n今年新招聘教师三千人。（下转第3版）');
+
+describe('mergeContinuations', () => {
+  it('merges a fragment whose marker opens the body', () => {
+    const tail = article('2', '03', '乡村教师队伍建设迈出新步伐', '（上接第1版）\n\n乡村学校的面貌焕然一新。');
+    const [merged] = mergeContinuations([FRONT, tail]);
+    expect(merged.content).toBe('全省乡村教师待遇持续提高。\n\n今年新招聘教师三千人。\n\n乡村学校的面貌焕然一新。');
+    expect(merged.pages).toEqual(['01', '03']);
+  });
+
+  it('finds the marker after a byline or column line', () => {
+    const tail = article('2', '03', '乡村教师（上接第一版）', '本报记者 张三\n\n（上接第一版）乡村学校的面貌焕然一新。');
+    const merged = mergeContinuations([FRONT, tail]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].content).toBe('全省乡村教师待遇持续提高。\n\n今年新招聘教师三千人。\n\n本报记者 张三\n\n乡村学校的面貌焕然一新。');
+  });
+
+  it('ignores a 接第N版 deep inside the body', () => {
+    const tail = article('2', '03', '校园新闻', '第一段。\n\n第二段。\n\n第三段。\n\n详见上接第1版的报道。');
+    expect(mergeContinuations([FRONT, tail])).toHaveLength(2);
+  });
+});
+
+describe('normalizePageRef', () => {
+  it('compares Arabic, Chinese and full-width page numbers', () => {
+    expect(['3', '03', '三', '０３'].map(normalizePageRef)).toEqual(['3', '3', '3', '3']);
+    expect(normalizePageRef('Ａ１２')).toBe('A12');
+  });
+});
@@ -0,0 +1,196 @@
+import { Article } from '../types';
+import { renderArticleMarkdown } from './exportService';
+
+/**
+ * Stories continued across pages
+ * Front-page stories end with "转第3版" and continue on page 3 under "上接第1版". After a date is
+ * scraped the fragments are matched by page reference and title similarity and merged into one article.
+ */
+
+const PAGE_REF = '([A-Za-zＡ-Ｚ]?\\s*[0-9０-９一二三四五六七八九十]{1,3})';
+
+// (下转第3版) / 转第三版 / 转A3版, near the end of the body
+const JUMP_PATTERN = new RegExp(`[（(【\\[]?\\s*下?转(?:第|至)?\\s*${PAGE_REF}\\s*版\\s*[）)】\\]]?`, 'g');
+
+// (上接第1版) / 接第一版, near the start of the body or in the title
+const CONTINUED_PATTERN = new RegExp(`[（(【\\[]?\\s*上?接(?:第|自)?\\s*${PAGE_REF}\\s*版\\s*[）)】\\]]?`);
+
+// How much of the end of a body is searched for the jump marker
+const JUMP_SEARCH_CHARS = 60;
+
+// How many lines at the start of a body are searched for the continued-from marker
+// (a byline or column name can come before it)
+const CONTINUED_SEARCH_LINES = 3;
+
+// Minimum title similarity when several fragments on the target page could match
+const MIN_TITLE_SIMILARITY = 0.3;
+
+const CHINESE_DIGITS: { [digit: string]: number } = {
+  '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+
+const parseChineseNumber = (str: string): number => {
+  if (str === '十') return 10;
+  const [tens, ones] = str.split('十');
+  if (str.includes('十')) return (tens ? CHINESE_DIGITS[tens] : 1) * 10 + (ones ? CHINESE_DIGITS[ones] : 0);
+  return CHINESE_DIGITS[str] || NaN;
+};
+
+/**
+ * Normalize a page reference ("3", "03", "三", "A3", "Ａ０３") to a comparable key like "3" or "A3"
+ */
+export const normalizePageRef = (ref: string): string => {
+  // Full-width forms (Ａ０３) map to ASCII by a fixed offset
+  const cleaned = ref.replace(/\s+/g, '').replace(/[Ａ-Ｚａ-ｚ０-９]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xFEE0));
+  const match = /^([A-Za-z]?)(.+)$/.exec(cleaned);
+  if (!match) return cleaned;
+  const number = /^\d+$/.test(match[2]) ? parseInt(match[2], 10) : parseChineseNumber(match[2]);
+  return `${match[1].toUpperCase()}${isNaN(number) ? match[2] : number}`;
+};
+
+// Printed page of an article: from its label (第A03版) when known, else the page index
+const pageRefOf = (article: Article): string => {
+  const fromLabel = article.pageLabel && /([A-Za-z]?\d+)/.exec(article.pageLabel);
+  return normalizePageRef(fromLabel ? fromLabel[1] : article.page);
+};
+
+// Markdown emphasis around markers doesn't matter for matching
+const plain = (str: string): string => str.replace(/\*\*/g, '');
+
+/**
+ * Page a fragment jumps to, and the body with the marker removed
+ */
+const findJump = (article: Article): { ref: string; content: string } | null => {
+  const content = article.content;
+  const tailStart = Math.max(0, content.length - JUMP_SEARCH_CHARS);
+  const tail = plain(content.slice(tailStart));
+  const matches = Array.from(tail.matchAll(JUMP_PATTERN));
+  if (matches.length === 0) return null;
+
+  const last = matches[matches.length - 1];
+  const index = last.index || 0;
+  const stripped = tail.slice(0, index) + tail.slice(index + last[0].length);
+  return { ref: normalizePageRef(last[1]), content: `${content.slice(0, tailStart)}${stripped}`.trimEnd() };
+};
+
+/**
+ * Page a fragment continues from, and the body with the marker removed
+ */
+const findContinuation = (article: Article): { ref: string; content: string } | null => {
+  const lines = plain(article.content).trim().split('\n');
+  let searched = 0;
+  for (let i = 0; i < lines.length && searched < CONTINUED_SEARCH_LINES; i++) {
+    const line = lines[i];
+    if (!line.trim()) continue;
+    searched++;
+
+    const inBody = CONTINUED_PATTERN.exec(line);
+    if (inBody) {
+      const rest = `${line.slice(0, inBody.index)}${line.slice(inBody.index + inBody[0].length)}`.trim();
+      const content = [...lines.slice(0, i), rest, ...lines.slice(i + 1)].join('\n');
+      return { ref: normalizePageRef(inBody[1]), content: content.replace(/\n{3,}/g, '\n\n').trim() };
+    }
+  }
+  // Some layouts print the marker next to the title instead
+  const inTitle = CONTINUED_PATTERN.exec(article.title);
+  return inTitle ? { ref: normalizePageRef(inTitle[1]), content: article.content } : null;
+};
+
+const bigrams = (str: string): string[] => {
+  const chars = Array.from(str.replace(/[\s\p{P}\p{S}]/gu, '').replace(/[（(]?\s*上?接.{1,6}版\s*[）)]?/g, ''));
+  const result: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) result.push(chars[i] + chars[i + 1]);
+  return result;
+};
+
+/**
+ * Dice coefficient over character bigrams (0..1)
+ */
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let shared = 0;
+  right.forEach(g => {
+    const n = counts.get(g) || 0;
+    if (n > 0) {
+      shared++;
+      counts.set(g, n - 1);
+    }
+  });
+  return (2 * shared) / (left.length + right.length);
+};
+
+const mergePair = (head: Article, headContent: string, tail: Article, tailContent: string): Article => {
+  const fragments = [...(head.fragments || [head]), tail];
+  const merged: Article = {
+    ...head,
+    content: `${headContent}\n\n${tailContent}`,
+    pages: [...(head.pages || [head.page]), tail.page],
+    images: [...(head.images || []), ...(tail.images || [])],
+    fragments: fragments.map(({ fragments: _fragments, ...fragment }) => fragment),
+  };
+  merged.markdown = renderArticleMarkdown(merged);
+  return merged;
+};
+
+/**
+ * Merge continued stories within one date's articles
+ * The merged article keeps the first fragment's position; the continuation fragments are removed
+ * from the list but kept in `fragments`.
+ */
+export const mergeContinuations = (articles: Article[]): Article[] => {
+  const continuations = new Map<string, { ref: string; content: string }>();
+  articles.forEach(article => {
+    const continuation = findContinuation(article);
+    if (continuation) continuations.set(article.id, continuation);
+  });
+  if (continuations.size === 0) return articles;
+
+  const byId = new Map(articles.map(article => [article.id, article]));
+  const absorbed = new Set<string>();
+
+  for (const original of articles) {
+    if (absorbed.has(original.id)) continue;
+    let head = byId.get(original.id) as Article;
+
+    // Follow chains: page 1 -> page 3 -> page 5
+    for (let jump = findJump(head); jump; jump = findJump(head)) {
+      const fromRef = pageRefOf(head.fragments ? head.fragments[head.fragments.length - 1] : head);
+      const candidates = articles.filter(tail => {
+        const continuation = continuations.get(tail.id);
+        return tail.id !== original.id
+          && !absorbed.has(tail.id)
+          && continuation
+          && continuation.ref === fromRef
+          && pageRefOf(tail) === jump.ref;
+      });
+      if (candidates.length === 0) break;
+
+      const scored = candidates
+        .map(tail => ({ tail, score: titleSimilarity(original.title, tail.title) }))
+        .sort((a, b) => b.score - a.score);
+      const best = scored[0];
+      if (candidates.length > 1 && best.score < MIN_TITLE_SIMILARITY) break;
+
+      head = mergePair(head, jump.content, best.tail, (continuations.get(best.tail.id) as { content: string }).content);
+      absorbed.add(best.tail.id);
+    }
+
+    byId.set(original.id, head);
+  }
+
+  return articles
+    .filter(article => !absorbed.has(article.id))
+    .map(article => byId.get(article.id) as Article);
+};
+
+/**
+ * Replace merged stories by their original fragments (for exporting them separately)
+ */
+export const expandContinuations = (articles: Article[]): Article[] => {
+  return articles.flatMap(article => article.fragments || [article]);
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { DATASET_COLUMNS, DATASET_SCHEMA_VERSION, DatasetRow, buildDatasetExport, toDatasetRow } from './datasetExport';
+
+const ARTICLES: Article[] = [
+  {
+    id: 'b',
+    date: '2024-03-02',
+    page: '03',
+    pages: ['03', '05'],
+    pageLabel: '第03版',
+    section: '综合新闻',
+    title: '"双减"之后，课后服务怎么做',
+    byline: '本报记者 王芳',
+    author: '王芳',
+    content: '**记者：**课后服务覆盖率达到\\*95%\\*，\n\n家长说："孩子回家\r\n更轻松了"。',
+    markdown: '# "双减"之后，课后服务怎么做',
+    url: 'http://paper.example.cn/html/2024-03/02/content_2.htm',
+    images: [],
+    scrapedAt: '2024-03-02T08:00:00.000Z',
+    status: 'success',
+    cleanStatus: 'cleaning',
+    enrichStatus: 'enriched',
+    enrichment: {
+      summary: '全市推进课后服务。',
+      keywords: ['双减', '课后服务', '家长', '学校', '教育局'],
+      people: ['王芳'],
+      organizations: ['市教育局'],
+      places: [],
+      model: 'mock',
+      enrichedAt: '2024-03-02T09:00:00.000Z',
+    },
+  },
+  {
+    id: 'a',
+    date: '2024-03-01',
+    page: '01',
+    title: '简讯',
+    content: '开学第一天。',
+    markdown: '# 简讯\n\n开学第一天。',
+    url: 'http://paper.example.cn/html/2024-03/01/content_1.htm',
+    images: [],
+    status: 'success',
+  },
+];
+
+const files = () => Object.fromEntries(buildDatasetExport(ARTICLES).map(file => [file.path, file.content as string]));
+
+// RFC 4180 reader: quoted fields may hold commas, doubled quotes and line breaks
+const parseCsv = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') field += csv[++i];
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && csv[i + 1] === '\n') {
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+  return rows;
+};
+
+// A row as it reads back from CSV: everything a string, null as empty
+const asCsv = (row: DatasetRow): string[] => DATASET_COLUMNS.map(({ name }) => (row[name] === null ? '' : String(row[name])));
+
+describe('buildDatasetExport', () => {
+  it('writes JSON Lines that parse back to the rows, in date order', () => {
+    const lines = files()['articles.jsonl'].split('\n');
+    expect(lines.pop()).toBe('');
+    const rows = lines.map(line => JSON.parse(line));
+    expect(rows).toEqual([toDatasetRow(ARTICLES[1]), toDatasetRow(ARTICLES[0])]);
+    expect(rows.map(row => Object.keys(row))).toEqual([0, 1].map(() => DATASET_COLUMNS.map(column => column.name)));
+  });
+
+  it('writes CSV with a BOM, a header row and quoted fields that read back unchanged', () => {
+    const csv = files()['articles.csv'];
+    expect(csv.startsWith('\uFEFFid,date,page,')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+
+    const [header, ...rows] = parseCsv(csv.slice(1));
+    expect(header).toEqual(DATASET_COLUMNS.map(column => column.name));
+    expect(rows).toEqual([asCsv(toDatasetRow(ARTICLES[1])), asCsv(toDatasetRow(ARTICLES[0]))]);
+  });
+
+  it('fills the derived columns', () => {
+    const row = toDatasetRow(ARTICLES[0]);
+    expect(row).toMatchObject({
+      pages: '03,05',
+      clean_status: 'raw', // A running cleanup isn't exported
+      keywords: '双减;课后服务;家长;学校;教育局',
+      places: null,
+      enrich_status: 'enriched',
+    });
+    // Counted without the Markdown emphasis and escapes
+    expect(row.char_count).toBe(Array.from('记者：课后服务覆盖率达到*95%*，\n\n家长说："孩子回家\r\n更轻松了"。').length);
+  });
+
+  it('describes every column in schema.json', () => {
+    const schema = JSON.parse(files()['schema.json']);
+    expect(schema.version).toBe(DATASET_SCHEMA_VERSION);
+    expect(schema.columns).toEqual(DATASET_COLUMNS);
+    expect(schema.columns.filter((column: { nullable: boolean }) => !column.nullable).map((column: { name: string }) => column.name))
+      .toEqual(['id', 'date', 'page', 'title', 'url', 'content', 'markdown', 'char_count', 'status', 'clean_status', 'enrich_status']);
+  });
+});
@@ -0,0 +1,125 @@
+import { Article } from '../types';
+import { ExportFile } from './exportService';
+import { settledCleanStatus, settledEnrichStatus } from './cleanupQueue';
+import { markdownToText } from './htmlToMarkdown';
+
+/**
+ * Tabular dataset export for text mining
+ * One row per article as JSON Lines and CSV, plus schema.json describing the columns. Column names
+ * and types only change with a new schema version, so pipelines (pandas, Arrow, Parquet) can rely on them.
+ */
+
+// Bump the major version when a column is renamed, removed or changes type, the minor version when columns are added,
+// the patch version when a column's values are computed differently
+export const DATASET_SCHEMA_VERSION = '1.1.1';
+
+export interface DatasetColumn {
+  name: string;
+  type: 'string' | 'date' | 'integer' | 'timestamp';
+  arrowType: string; // Type to read the column as in Arrow / Parquet
+  nullable: boolean;
+  description: string;
+}
+
+export const DATASET_COLUMNS: DatasetColumn[] = [
+  { name: 'id', type: 'string', arrowType: 'string', nullable: false, description: 'Unique article ID (UUID)' },
+  { name: 'date', type: 'date', arrowType: 'date32', nullable: false, description: 'Edition date, YYYY-MM-DD' },
+  { name: 'page', type: 'string', arrowType: 'string', nullable: false, description: 'Page number within the edition, zero-padded ("01"); first page of continued stories' },
+  { name: 'pages', type: 'string', arrowType: 'string', nullable: true, description: 'All pages of a story continued across pages, comma separated' },
+  { name: 'page_label', type: 'string', arrowType: 'string', nullable: true, description: 'Printed page label, e.g. 第01版' },
+  { name: 'section', type: 'string', arrowType: 'string', nullable: true, description: 'Section name of the page (版面名)' },
+  { name: 'column', type: 'string', arrowType: 'string', nullable: true, description: 'Column (栏目) the article ran under' },
+  { name: 'title', type: 'string', arrowType: 'string', nullable: false, description: 'Headline' },
+  { name: 'byline', type: 'string', arrowType: 'string', nullable: true, description: 'Byline as printed' },
+  { name: 'author', type: 'string', arrowType: 'string', nullable: true, description: 'Reporter name(s), space separated' },
+  { name: 'url', type: 'string', arrowType: 'string', nullable: false, description: 'Source URL of the article page' },
+  { name: 'content', type: 'string', arrowType: 'string', nullable: false, description: 'Article body as Markdown' },
+  { name: 'markdown', type: 'string', arrowType: 'string', nullable: false, description: 'Full Markdown document: title, date/page line, body and images' },
+  { name: 'char_count', type: 'integer', arrowType: 'int32', nullable: false, description: 'Characters (Unicode code points) in the text of content, without Markdown syntax' },
+  { name: 'scraped_at', type: 'timestamp', arrowType: 'timestamp[ms, tz=UTC]', nullable: true, description: 'When the article was extracted, ISO 8601 UTC' },
+  { name: 'status', type: 'string', arrowType: 'string', nullable: false, description: 'Extraction status: success, failed, pending or processing' },
+  { name: 'clean_status', type: 'string', arrowType: 'string', nullable: false, description: 'AI cleanup status: raw, cleaned or failed' },
+  { name: 'summary', type: 'string', arrowType: 'string', nullable: true, description: 'AI summary, 2-3 sentences in Chinese' },
+  { name: 'keywords', type: 'string', arrowType: 'string', nullable: true, description: 'AI keywords, semicolon separated' },
+  { name: 'people', type: 'string', arrowType: 'string', nullable: true, description: 'People mentioned (AI), semicolon separated' },
+  { name: 'organizations', type: 'string', arrowType: 'string', nullable: true, description: 'Organizations mentioned (AI), semicolon separated' },
+  { name: 'places', type: 'string', arrowType: 'string', nullable: true, description: 'Places mentioned (AI), semicolon separated' },
+  { name: 'enrich_status', type: 'string', arrowType: 'string', nullable: false, description: 'AI enrichment status: raw, enriched or failed' },
+];
+
+const list = (values: string[] | undefined): string | null => (values && values.length > 0 ? values.join(';') : null);
+
+export type DatasetRow = { [column: string]: string | number | null };
+
+export const toDatasetRow = (article: Article): DatasetRow => ({
+  id: article.id,
+  date: article.date,
+  page: article.page,
+  pages: article.pages && article.pages.length > 1 ? article.pages.join(',') : null,
+  page_label: article.pageLabel || null,
+  section: article.section || null,
+  column: article.column || null,
+  title: article.title,
+  byline: article.byline || null,
+  author: article.author || null,
+  url: article.url,
+  content: article.content,
+  markdown: article.markdown,
+  char_count: Array.from(markdownToText(article.content)).length,
+  scraped_at: article.scrapedAt || null,
+  status: article.status,
+  clean_status: settledCleanStatus(article.cleanStatus),
+  summary: article.enrichment?.summary || null,
+  keywords: list(article.enrichment?.keywords),
+  people: list(article.enrichment?.people),
+  organizations: list(article.enrichment?.organizations),
+  places: list(article.enrichment?.places),
+  enrich_status: settledEnrichStatus(article.enrichStatus),
+});
+
+// RFC 4180: quote fields with separators, quotes or line breaks
+const csvField = (value: string | number | null): string => {
+  if (value === null) return '';
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+/**
+ * CSV with a header row, CRLF line endings and a UTF-8 BOM so Excel detects the encoding
+ */
+export const renderDatasetCsv = (rows: DatasetRow[]): string => {
+  const names = DATASET_COLUMNS.map(column => column.name);
+  const lines = [names.join(','), ...rows.map(row => names.map(name => csvField(row[name])).join(','))];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+export const renderDatasetJsonl = (rows: DatasetRow[]): string => {
+  return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+};
+
+export const renderDatasetSchema = (): string => {
+  return JSON.stringify({
+    name: 'paperscraper-articles',
+    version: DATASET_SCHEMA_VERSION,
+    description: 'One row per article. Missing values are null in JSONL and empty in CSV.',
+    files: {
+      'articles.jsonl': 'JSON Lines, UTF-8',
+      'articles.csv': 'CSV (RFC 4180), UTF-8 with BOM, CRLF line endings, header row',
+    },
+    columns: DATASET_COLUMNS,
+  }, null, 2) + '\n';
+};
+
+/**
+ * articles.jsonl, articles.csv and schema.json, articles in date order
+ */
+export const buildDatasetExport = (articles: Article[]): ExportFile[] => {
+  const rows = [...articles]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(toDatasetRow);
+  return [
+    { path: 'articles.jsonl', content: renderDatasetJsonl(rows) },
+    { path: 'articles.csv', content: renderDatasetCsv(rows) },
+    { path: 'schema.json', content: renderDatasetSchema() },
+  ];
+};
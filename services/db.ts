@@ -0,0 +1,77 @@
+/**
+ * IndexedDB access shared by the persistent stores (jobs, assets, ...)
+ * Keeps the schema and upgrade path in one place
+ */
+
+const DB_NAME = 'paperscraper-pro';
+const DB_VERSION = 3;
+
+export const JOB_STORE = 'jobs';
+export const ASSET_STORE = 'assets'; // Downloaded binaries (images, PDFs) keyed by source URL
+export const FINGERPRINT_STORE = 'fingerprints'; // Articles seen in earlier runs, keyed by normalized URL
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade if needed) the application database
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(JOB_STORE)) {
+        const store = db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(ASSET_STORE)) {
+        db.createObjectStore(ASSET_STORE, { keyPath: 'url' });
+      }
+      if (!db.objectStoreNames.contains(FINGERPRINT_STORE)) {
+        db.createObjectStore(FINGERPRINT_STORE, { keyPath: 'urlKey' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Run a single request against one object store and wait for the transaction to finish
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const result = promisifyRequest(action(tx.objectStore(storeName)));
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+  return result;
+};
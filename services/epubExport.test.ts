@@ -0,0 +1,84 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { AssetLoader } from './exportService';
+import { buildEpub } from './epubExport';
+
+const article = (id: string, date: string, title: string, fields: Partial<Article> = {}): Article => ({
+  id,
+  date,
+  page: '01',
+  title,
+  content: '正文。',
+  markdown: `# ${title}\n\n正文。`,
+  url: `http://paper.example.cn/html/${date.slice(0, 7)}/${date.slice(8)}/content_${id}.htm`,
+  images: [],
+  status: 'success',
+  ...fields,
+});
+
+const ARTICLES = [
+  article('1', '2024-03-01', '教育部发布新学期工作要点', {
+    pageLabel: '第01版',
+    images: [
+      { url: 'http://paper.example.cn/images/1.jpg', caption: '开学第一课', file: 'images/1.jpg' },
+      { url: 'http://paper.example.cn/images/2.jpg', caption: '未下载', file: 'images/2.jpg' },
+    ],
+  }),
+  article('2', '2024-03-01', '乡村教师待遇持续提高', { page: '02', pageLabel: '第02版' }),
+  article('3', '2024-03-02', '高校毕业生就业形势总体稳定'),
+];
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+// Serves only the first image, as if the second was never downloaded
+const loadAsset: AssetLoader = async url => (url.endsWith('/1.jpg') ? { data: JPEG } : undefined);
+
+const build = () => buildEpub(ARTICLES, loadAsset, { paperName: 'paper.example.cn' });
+
+describe('buildEpub', () => {
+  it('starts with an uncompressed mimetype entry', async () => {
+    const bytes = await build();
+    const header = new DataView(bytes.buffer, bytes.byteOffset);
+    expect(header.getUint32(0, true)).toBe(0x04034b50); // Local file header
+    expect(header.getUint16(8, true)).toBe(0); // Stored
+    expect(header.getUint16(26, true)).toBe('mimetype'.length);
+    expect(header.getUint16(28, true)).toBe(0); // No extra field, so the content sits at offset 38
+    expect(new TextDecoder().decode(bytes.subarray(30, 38))).toBe('mimetype');
+    expect(new TextDecoder().decode(bytes.subarray(38, 58))).toBe('application/epub+zip');
+  });
+
+  it('writes the entries in order, embedding only the images the loader has', async () => {
+    const zip = await JSZip.loadAsync(await build());
+    expect(Object.values(zip.files).filter(file => !file.dir).map(file => file.name)).toEqual([
+      'mimetype',
+      'META-INF/container.xml',
+      'OEBPS/style.css',
+      'OEBPS/2024-03-01/images/1.jpg',
+      'OEBPS/2024-03-01/a001.xhtml',
+      'OEBPS/2024-03-01/a002.xhtml',
+      'OEBPS/2024-03-01/index.xhtml',
+      'OEBPS/2024-03-02/a001.xhtml',
+      'OEBPS/2024-03-02/index.xhtml',
+      'OEBPS/nav.xhtml',
+      'OEBPS/toc.ncx',
+      'OEBPS/content.opf',
+    ]);
+    expect(await zip.file('OEBPS/2024-03-01/images/1.jpg')!.async('uint8array')).toEqual(JPEG);
+
+    const chapter = await zip.file('OEBPS/2024-03-01/a001.xhtml')!.async('string');
+    expect(chapter).toContain('<figure><img src="images/1.jpg" alt="开学第一课" /><figcaption>开学第一课</figcaption></figure>');
+    expect(chapter).not.toContain('images/2.jpg');
+  });
+
+  it('lists every file in the manifest and every chapter in the spine, in reading order', async () => {
+    const zip = await JSZip.loadAsync(await build());
+    const opf = await zip.file('OEBPS/content.opf')!.async('string');
+    const attributes = (tag: string, name: string) => Array.from(opf.matchAll(new RegExp(`<${tag} [^>]*${name}="([^"]+)"`, 'g')), match => match[1]);
+
+    const files = Object.values(zip.files).filter(file => !file.dir && file.name.startsWith('OEBPS/')).map(file => file.name.slice(6));
+    expect(attributes('item', 'href').filter(href => href !== 'content.opf').sort()).toEqual(files.filter(file => file !== 'content.opf').sort());
+    expect(attributes('itemref', 'idref')).toEqual(['nav', 'part1', 'd1a1', 'd1a2', 'part2', 'd2a1']);
+    expect(opf).toContain('<dc:title>paper.example.cn 2024-03-01 – 2024-03-02</dc:title>');
+  });
+});
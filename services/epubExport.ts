@@ -0,0 +1,273 @@
+import JSZip from 'jszip';
+import { Article, ScrapeConfig } from '../types';
+import { AssetLoader, groupArticlesByDate } from './exportService';
+import { escapeXml, markdownToXhtml } from './markdownToXhtml';
+
+/**
+ * EPUB 3 export, built client-side with JSZip
+ * Each date is a part, each page/section a group in the table of contents and each article a
+ * chapter. Downloaded images are embedded; images that were never downloaded are left out.
+ */
+
+export interface EpubOptions {
+  paperName: string;
+  language?: string; // BCP 47, default zh
+}
+
+// Image types reading systems must support; anything else can't go into the book without a fallback
+const IMAGE_MEDIA_TYPES: { [ext: string]: string } = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.7; margin: 0 5%; }
+h1 { font-size: 1.4em; margin: 1em 0 0.4em; }
+h2, h3, h4 { font-size: 1.1em; }
+p { margin: 0.5em 0; text-indent: 2em; }
+p.meta, p.byline, p.source { text-indent: 0; font-size: 0.85em; color: #666; }
+aside.summary { margin: 0.8em 0; padding: 0.4em 0.8em; border-left: 3px solid #999; }
+aside.summary p { text-indent: 0; }
+p.keywords { font-size: 0.85em; color: #666; }
+figure { margin: 1em 0; text-align: center; }
+figure img { max-width: 100%; }
+figcaption { font-size: 0.85em; color: #444; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #999; padding: 0.2em 0.5em; }
+blockquote { margin: 1em 2em; }
+nav ol { list-style: none; }
+.part h1 { text-align: center; margin-top: 30%; }
+`;
+
+interface Chapter {
+  id: string;
+  href: string; // Relative to OEBPS/
+  title: string;
+}
+
+interface PageGroup {
+  label: string;
+  chapters: Chapter[];
+}
+
+interface Part {
+  date: string;
+  id: string;
+  href: string;
+  groups: PageGroup[];
+}
+
+/**
+ * Name of the paper for the book title: the hostname of the URL pattern
+ */
+export const paperNameFromConfig = (config: ScrapeConfig): string => {
+  try {
+    return new URL(config.baseUrlPattern.replace(/\{[A-Z]+\}/g, '1')).hostname;
+  } catch (e) {
+    return 'Newspaper';
+  }
+};
+
+const pageGroupLabel = (article: Article): string => {
+  return [article.pageLabel || `Page ${article.page}`, article.section].filter(Boolean).join(' ');
+};
+
+const xhtmlDocument = (title: string, body: string, language: string, stylesheet: string): string => {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="${stylesheet}" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+const renderChapter = (article: Article, images: Set<string>): string => {
+  const meta = [
+    article.date,
+    article.pages && article.pages.length > 1 ? `Pages ${article.pages.join(', ')}` : article.pageLabel || `Page ${article.page}`,
+    article.section,
+    article.column && `【${article.column}】`,
+  ].filter(Boolean).join(' · ');
+
+  // Inline images in the body are kept only when they're in the book
+  const image = (src: string, alt: string) => (
+    images.has(`${article.date}/${src}`) ? `<img src="${escapeXml(src)}" alt="${escapeXml(alt)}" />` : escapeXml(alt)
+  );
+
+  const figures = (article.images || [])
+    .filter(img => img.file && images.has(`${article.date}/${img.file}`))
+    .map(img => {
+      const caption = img.caption ? `<figcaption>${escapeXml(img.caption)}</figcaption>` : '';
+      return `<figure><img src="${escapeXml(img.file as string)}" alt="${escapeXml(img.caption)}" />${caption}</figure>`;
+    });
+
+  return [
+    `<article>`,
+    `<h1>${escapeXml(article.title || 'Untitled')}</h1>`,
+    `<p class="meta">${escapeXml(meta)}</p>`,
+    article.byline ? `<p class="byline">${escapeXml(article.byline)}</p>` : '',
+    article.enrichment ? `<aside class="summary" epub:type="abstract"><p>${escapeXml(article.enrichment.summary)}</p>`
+      + (article.enrichment.keywords.length > 0 ? `<p class="keywords">${escapeXml(article.enrichment.keywords.join(' · '))}</p>` : '')
+      + '</aside>' : '',
+    markdownToXhtml(article.content, { image }),
+    ...figures,
+    article.url ? `<p class="source"><a href="${escapeXml(article.url)}">${escapeXml(article.url)}</a></p>` : '',
+    `</article>`,
+  ].filter(Boolean).join('\n');
+};
+
+const renderPartPage = (part: Part): string => {
+  const groups = part.groups.map(group => `<li>${escapeXml(group.label)} (${group.chapters.length})</li>`).join('\n');
+  return `<section class="part" epub:type="part">\n<h1>${escapeXml(part.date)}</h1>\n<ul>\n${groups}\n</ul>\n</section>`;
+};
+
+const renderNav = (title: string, parts: Part[]): string => {
+  const items = parts.map(part => {
+    const groups = part.groups.map(group => {
+      const chapters = group.chapters
+        .map(chapter => `<li><a href="${chapter.href}">${escapeXml(chapter.title)}</a></li>`)
+        .join('\n');
+      return `<li><span>${escapeXml(group.label)}</span>\n<ol>\n${chapters}\n</ol></li>`;
+    }).join('\n');
+    return `<li><a href="${part.href}">${escapeXml(part.date)}</a>\n<ol>\n${groups}\n</ol></li>`;
+  }).join('\n');
+  return `<nav epub:type="toc" id="toc">\n<h1>${escapeXml(title)}</h1>\n<ol>\n${items}\n</ol>\n</nav>`;
+};
+
+// NCX table of contents for EPUB 2 reading systems
+const renderNcx = (identifier: string, title: string, parts: Part[]): string => {
+  let order = 0;
+  const point = (label: string, href: string, children: string = '') => {
+    order++;
+    return `<navPoint id="np${order}" playOrder="${order}"><navLabel><text>${escapeXml(label)}</text></navLabel><content src="${href}" />${children}</navPoint>`;
+  };
+  const points = parts.map(part => point(part.date, part.href, part.groups.map(group => (
+    point(group.label, group.chapters[0].href, group.chapters.map(chapter => point(chapter.title, chapter.href)).join(''))
+  )).join(''))).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${escapeXml(identifier)}" /></head>
+<docTitle><text>${escapeXml(title)}</text></docTitle>
+<navMap>
+${points}
+</navMap>
+</ncx>
+`;
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+</rootfiles>
+</container>
+`;
+
+/**
+ * Build an EPUB 3 book of the articles, dates in order
+ */
+export const buildEpub = async (articles: Article[], loadAsset: AssetLoader, options: EpubOptions): Promise<Uint8Array> => {
+  const language = options.language || 'zh';
+  const articlesByDate = groupArticlesByDate(articles);
+  const dates = Object.keys(articlesByDate).sort();
+  const dateRange = dates.length > 1 ? `${dates[0]} – ${dates[dates.length - 1]}` : dates[0] || '';
+  const title = `${options.paperName} ${dateRange}`.trim();
+  const identifier = `urn:paperscraper:${options.paperName}:${dates[0] || ''}:${dates[dates.length - 1] || ''}`;
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', CONTAINER_XML);
+  zip.file('OEBPS/style.css', STYLESHEET);
+
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />',
+    '<item id="css" href="style.css" media-type="text/css" />',
+  ];
+  const spine: string[] = ['<itemref idref="nav" />'];
+
+  // Downloaded images, as date/images/file paths matching the chapters' relative links
+  const images = new Set<string>();
+  for (const article of articles) {
+    for (const image of article.images || []) {
+      if (!image.file) continue;
+      const path = `${article.date}/${image.file}`;
+      const ext = image.file.split('.').pop() || '';
+      if (images.has(path) || !IMAGE_MEDIA_TYPES[ext]) continue;
+
+      const asset = await loadAsset(image.url);
+      if (!asset) continue;
+      images.add(path);
+      zip.file(`OEBPS/${path}`, asset.data);
+      manifest.push(`<item id="img${images.size}" href="${escapeXml(path)}" media-type="${IMAGE_MEDIA_TYPES[ext]}" />`);
+    }
+  }
+
+  const parts: Part[] = dates.map((date, partIndex) => {
+    const part: Part = { date, id: `part${partIndex + 1}`, href: `${date}/index.xhtml`, groups: [] };
+
+    articlesByDate[date].forEach((article, index) => {
+      const chapter: Chapter = {
+        id: `d${partIndex + 1}a${index + 1}`,
+        href: `${date}/a${String(index + 1).padStart(3, '0')}.xhtml`,
+        title: article.title || 'Untitled',
+      };
+      const label = pageGroupLabel(article);
+      const group = part.groups[part.groups.length - 1];
+      if (group && group.label === label) group.chapters.push(chapter);
+      else part.groups.push({ label, chapters: [chapter] });
+
+      zip.file(`OEBPS/${chapter.href}`, xhtmlDocument(chapter.title, renderChapter(article, images), language, '../style.css'));
+    });
+
+    zip.file(`OEBPS/${part.href}`, xhtmlDocument(date, renderPartPage(part), language, '../style.css'));
+    return part;
+  });
+
+  parts.forEach(part => {
+    manifest.push(`<item id="${part.id}" href="${part.href}" media-type="application/xhtml+xml" />`);
+    spine.push(`<itemref idref="${part.id}" />`);
+    part.groups.forEach(group => group.chapters.forEach(chapter => {
+      manifest.push(`<item id="${chapter.id}" href="${chapter.href}" media-type="application/xhtml+xml" />`);
+      spine.push(`<itemref idref="${chapter.id}" />`);
+    }));
+  });
+
+  zip.file('OEBPS/nav.xhtml', xhtmlDocument(title, renderNav(title, parts), language, 'style.css'));
+  zip.file('OEBPS/toc.ncx', renderNcx(identifier, title, parts));
+
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+<dc:title>${escapeXml(title)}</dc:title>
+<dc:language>${language}</dc:language>
+<dc:creator>${escapeXml(options.paperName)}</dc:creator>
+<dc:publisher>${escapeXml(options.paperName)}</dc:publisher>
+${dates[0] ? `<dc:date>${dates[0]}</dc:date>\n` : ''}<dc:description>${escapeXml(`${articles.length} articles, ${dateRange}`)}</dc:description>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+${manifest.join('\n')}
+</manifest>
+<spine toc="ncx">
+${spine.join('\n')}
+</spine>
+</package>
+`);
+
+  return zip.generateAsync({ type: 'uint8array', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
@@ -0,0 +1,215 @@
+import { Article, ArticleImage, PageScan } from '../types';
+
+/**
+ * Export layout shared by the browser ZIP export and the Node runner
+ * Produces the date-folder Markdown structure as a flat list of files
+ */
+
+export interface ExportFile {
+  path: string; // Relative path inside the archive / output directory, e.g. 2025-12-01/001_标题.md
+  content: string | Uint8Array;
+}
+
+// Looks up a downloaded binary by its source URL
+export type AssetLoader = (url: string) => Promise<{ data: Uint8Array } | undefined>;
+
+const EXTENSIONS_BY_TYPE: { [type: string]: string } = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'application/pdf': 'pdf',
+};
+
+// FNV-1a, enough to give every source URL a stable short name
+const hashString = (str: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * File extension for a download: from the Content-Type, else from the URL
+ */
+export const assetExtension = (url: string, contentType: string = ''): string => {
+  const fromType = EXTENSIONS_BY_TYPE[contentType.split(';')[0].trim().toLowerCase()];
+  const fromUrl = /\.([a-z0-9]{2,4})(?:[?#]|$)/i.exec(url)?.[1]?.toLowerCase();
+  return fromType || fromUrl || 'bin';
+};
+
+/**
+ * Stable file name for a downloaded asset, e.g. img_1a2b3c4d.jpg
+ */
+export const assetFileName = (url: string, contentType: string = '', prefix: string = 'img'): string => {
+  return `${prefix}_${hashString(url)}.${assetExtension(url, contentType)}`;
+};
+
+/**
+ * Markdown for an article's photos. Downloaded ones link to the local copy next to the
+ * date's Markdown files, the rest to the source URL.
+ */
+export const renderImagesMarkdown = (images: ArticleImage[] = []): string => {
+  return images
+    .map(image => {
+      const alt = image.caption.replace(/[\[\]]/g, '');
+      const line = `![${alt}](${image.file || image.url})`;
+      return image.caption ? `${line}\n*${image.caption}*` : line;
+    })
+    .join('\n\n');
+};
+
+/**
+ * Links from an article to the scan and PDF of its layout page
+ */
+export const renderPageScanLinks = (scan?: PageScan): string => {
+  if (!scan) return '';
+  const links: string[] = [];
+  if (scan.pdfUrl) links.push(`[PDF](${scan.pdfFile || scan.pdfUrl})`);
+  if (scan.imageUrl) links.push(`[Scan](${scan.imageFile || scan.imageUrl})`);
+  return links.join(' · ');
+};
+
+/**
+ * The date/page line under an article's title, with links to the page scan
+ */
+export const renderArticleInfoLine = (article: Article): string => {
+  const pages = article.pages && article.pages.length > 1
+    ? `**Pages:** ${article.pages.join(', ')}`
+    : `**Page:** ${article.page}`;
+  const section = article.section ? ` ${article.section}` : '';
+  const scanLinks = renderPageScanLinks(article.pageScan);
+  return `**Date:** ${article.date} | ${pages}${section}${scanLinks ? ` (${scanLinks})` : ''}`;
+};
+
+/**
+ * Markdown document of an article: title, date/page line, body and photos
+ */
+export const renderArticleMarkdown = (article: Article): string => {
+  const imagesMd = renderImagesMarkdown(article.images);
+  return `# ${article.title}\n\n${renderArticleInfoLine(article)}\n\n${article.content}${imagesMd ? `\n\n${imagesMd}` : ''}`;
+};
+
+/**
+ * Make a string safe to use as a file name
+ */
+export const sanitizeFilename = (str: string): string => {
+  return str
+    .replace(/[<>:"/\\|?*\x00-\x1F]/g, '_') // Remove illegal characters
+    .replace(/\s+/g, '_') // Replace spaces with underscores
+    .replace(/_{2,}/g, '_') // Remove multiple underscores
+    .substring(0, 100); // Limit length
+};
+
+/**
+ * Group articles by date, keeping their order within each date
+ */
+export const groupArticlesByDate = (articles: Article[]): { [date: string]: Article[] } => {
+  const articlesByDate: { [date: string]: Article[] } = {};
+  articles.forEach(article => {
+    if (!articlesByDate[article.date]) {
+      articlesByDate[article.date] = [];
+    }
+    articlesByDate[article.date].push(article);
+  });
+  return articlesByDate;
+};
+
+/**
+ * YAML frontmatter with the article's metadata; empty fields are left out
+ */
+export const renderFrontmatter = (article: Article): string => {
+  const fields: [string, string | undefined][] = [
+    ['title', article.title],
+    ['date', article.date],
+    ['page', article.page],
+    ['page_label', article.pageLabel],
+    ['section', article.section],
+    ['column', article.column],
+    ['byline', article.byline],
+    ['author', article.author],
+    ['location', article.location],
+    ['source', article.url],
+    ['summary', article.enrichment?.summary],
+    ['translated_title', article.translation?.title],
+    ['language', article.translation?.language],
+  ];
+  // JSON strings are valid YAML double-quoted scalars, JSON arrays of them valid flow sequences
+  const lines = fields
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  if (article.enrichment) {
+    const { keywords, people, organizations, places } = article.enrichment;
+    const lists: [string, string[]][] = [['keywords', keywords], ['people', people], ['organizations', organizations], ['places', places]];
+    lists
+      .filter(([, values]) => values.length > 0)
+      .forEach(([key, values]) => lines.push(`${key}: ${JSON.stringify(values)}`));
+  }
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+/**
+ * File name of an article inside its date folder, e.g. 001_第01版_要闻_标题.md
+ */
+export const articleFileName = (article: Article, index: number): string => {
+  const parts = [article.pageLabel, article.section, article.title].filter(part => part);
+  return `${String(index + 1).padStart(3, '0')}_${sanitizeFilename(parts.join('_'))}.md`;
+};
+
+/**
+ * One folder per date, one numbered Markdown file per article
+ */
+export const buildMarkdownExport = (articles: Article[]): ExportFile[] => {
+  const files: ExportFile[] = [];
+  const articlesByDate = groupArticlesByDate(articles);
+
+  Object.keys(articlesByDate).sort().forEach(date => {
+    articlesByDate[date].forEach((article, index) => {
+      const filename = articleFileName(article, index);
+      files.push({ path: `${date}/${filename}`, content: `${renderFrontmatter(article)}\n${article.markdown}` });
+    });
+  });
+
+  return files;
+};
+
+/**
+ * Downloaded binaries, placed next to each date's Markdown files: article images in images/,
+ * layout page scans and PDFs in pages/
+ */
+export const collectAssetFiles = async (
+  articles: Article[],
+  loadAsset: AssetLoader,
+  pageScans: PageScan[] = []
+): Promise<ExportFile[]> => {
+  const files: ExportFile[] = [];
+  const added = new Set<string>();
+
+  const add = async (date: string, url: string, file?: string) => {
+    if (!file) return;
+    const path = `${date}/${file}`;
+    if (added.has(path)) return;
+
+    const asset = await loadAsset(url);
+    if (!asset) return;
+    added.add(path);
+    files.push({ path, content: asset.data });
+  };
+
+  for (const article of articles) {
+    for (const image of article.images || []) {
+      await add(article.date, image.url, image.file);
+    }
+  }
+
+  // Every captured page, including ones without extracted articles
+  for (const scan of pageScans) {
+    if (scan.imageUrl) await add(scan.date, scan.imageUrl, scan.imageFile);
+    if (scan.pdfUrl) await add(scan.date, scan.pdfUrl, scan.pdfFile);
+  }
+
+  return files;
+};
@@ -0,0 +1,101 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { FingerprintIndex, SIMHASH_THRESHOLD, createFingerprint, hammingDistance, normalizeText, normalizeUrl, simhash } from './fingerprint';
+
+// original.md and a reprint of it with small edits; other.md is a different article
+const fixture = (name: string): string => {
+  return readFileSync(new URL(`./__fixtures__/fingerprint/${name}`, import.meta.url), 'utf-8');
+};
+
+const article = (id: string, content: string, url = `http://paper.example.cn/html/2024-03/01/content_${id}.htm`): Article => ({
+  id,
+  date: '2024-03-01',
+  page: '01',
+  title: '乡村教师队伍建设',
+  content,
+  markdown: '',
+  url,
+  images: [],
+  scrapedAt: '2024-03-01T00:00:00.000Z',
+  status: 'success',
+});
+
+const fingerprintOf = (name: string) => simhash(normalizeText(fixture(name)));
+
+describe('normalizeUrl', () => {
+  it('ignores protocol, host case, fragment, tracking parameters and parameter order', () => {
+    const key = 'paper.example.cn/html/2024-03/01/content_1.htm?a=1&b=2';
+    expect(normalizeUrl('http://paper.example.cn/html/2024-03/01/content_1.htm?a=1&b=2')).toBe(key);
+    expect(normalizeUrl('https://Paper.Example.cn/html/2024-03/01/content_1.htm?b=2&utm_source=wechat&a=1#top')).toBe(key);
+    expect(normalizeUrl('http://paper.example.cn/html/2024-03/01/content_1.htm?spm=a.b&from=timeline&a=1&b=2&isappinstalled=0')).toBe(key);
+  });
+
+  it('collapses duplicate slashes and keeps real parameters apart', () => {
+    expect(normalizeUrl('http://paper.example.cn//html///2024-03/01/node_1.htm')).toBe('paper.example.cn/html/2024-03/01/node_1.htm');
+    expect(normalizeUrl('http://paper.example.cn/show.aspx?id=1')).not.toBe(normalizeUrl('http://paper.example.cn/show.aspx?id=2'));
+  });
+});
+
+describe('simhash', () => {
+  it('keeps a reprint with small edits within the threshold', () => {
+    expect(hammingDistance(fingerprintOf('original.md'), fingerprintOf('reprint.md'))).toBeLessThanOrEqual(SIMHASH_THRESHOLD);
+  });
+
+  it('puts a different article on a related subject well outside it', () => {
+    expect(hammingDistance(fingerprintOf('original.md'), fingerprintOf('other.md'))).toBeGreaterThan(SIMHASH_THRESHOLD * 2);
+  });
+
+  it('is 16 hex digits and stable', () => {
+    expect(fingerprintOf('original.md')).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprintOf('original.md')).toBe(fingerprintOf('original.md'));
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits across both halves', () => {
+    expect(hammingDistance('0123456789abcdef', '0123456789abcdef')).toBe(0);
+    expect(hammingDistance('0000000000000001', '8000000000000000')).toBe(2);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+  });
+});
+
+describe('createFingerprint', () => {
+  it('only SimHashes texts long enough for a stable hash', () => {
+    expect(createFingerprint(article('1', '简讯。'), 'job-1').simhash).toBe('');
+    expect(createFingerprint(article('1', fixture('original.md')), 'job-1').simhash).toMatch(/^[0-9a-f]{16}$/);
+  });
+});
+
+describe('FingerprintIndex.findDuplicate', () => {
+  const original = createFingerprint(article('1', fixture('original.md')), 'job-1');
+  const index = new FingerprintIndex([original]);
+
+  it('matches the same URL only from another job', () => {
+    const again = article('1', fixture('original.md'), 'https://paper.example.cn/html/2024-03/01/content_1.htm?utm_source=rss');
+    expect(index.findDuplicate(createFingerprint(again, 'job-1'))).toBeNull();
+    expect(index.findDuplicate(createFingerprint(again, 'job-2'))).toMatchObject({ reason: 'url', url: original.url });
+  });
+
+  it('matches identical text under another URL, whatever the formatting', () => {
+    const copy = article('9', fixture('original.md').replace(/，/g, ', ').replace(/\n\n/g, '\n'));
+    expect(index.findDuplicate(createFingerprint(copy, 'job-1'))).toMatchObject({ reason: 'content', url: original.url });
+  });
+
+  it('matches a reprint with small edits as similar, with its distance', () => {
+    const reprint = createFingerprint(article('7', fixture('reprint.md'), 'http://other.example.cn/2024/0302/a7.htm'), 'job-2');
+    const match = index.findDuplicate(reprint);
+    expect(match).toMatchObject({ reason: 'similar', url: original.url });
+    expect(match?.distance).toBe(hammingDistance(original.simhash, reprint.simhash));
+  });
+
+  it('does not match a different article', () => {
+    expect(index.findDuplicate(createFingerprint(article('8', fixture('other.md')), 'job-2'))).toBeNull();
+  });
+
+  it('does not compare short texts by SimHash', () => {
+    const short = new FingerprintIndex([createFingerprint(article('1', '教育部发布新学期工作要点。'), 'job-1')]);
+    expect(short.findDuplicate(createFingerprint(article('2', '教育部发布新学期工作要点！'), 'job-1'))).toMatchObject({ reason: 'content' });
+    expect(short.findDuplicate(createFingerprint(article('3', '教育部发布新学期工作重点。'), 'job-1'))).toBeNull();
+  });
+});
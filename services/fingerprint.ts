@@ -0,0 +1,197 @@
+import { Article, ArticleFingerprint, DuplicateMatch } from '../types';
+
+/**
+ * Content fingerprints for cross-run deduplication
+ * Normalized URL, an exact hash of the normalized text and a 64-bit SimHash over character
+ * shingles, which stays within a few bits for reprints with small edits.
+ */
+
+// Where fingerprints persist between runs (IndexedDB in the browser, a file for the CLI)
+export interface FingerprintStore {
+  load: () => Promise<ArticleFingerprint[]>;
+  save: (fingerprint: ArticleFingerprint) => Promise<void>;
+}
+
+// Bits that may differ for two texts to count as near-duplicates. A reprint with another byline, a
+// changed figure and a dropped clause is 6 bits away (see __fixtures__/fingerprint); unrelated
+// articles, even on the same subject, differ in 19 or more.
+export const SIMHASH_THRESHOLD = 8;
+
+// Shorter texts give unstable SimHashes, so they're only compared exactly
+const MIN_SIMHASH_LENGTH = 50;
+
+const SHINGLE_SIZE = 3;
+
+const TRACKING_PARAMS = /^(utm_\w+|spm|from|share\w*|source|isappinstalled|wxshare_\w+)$/i;
+
+/**
+ * URL key that ignores protocol, fragment, default ports, tracking parameters and parameter order
+ */
+export const normalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const path = parsed.pathname.replace(/\/{2,}/g, '/');
+    return `${parsed.hostname.toLowerCase()}${path}${query}`;
+  } catch (e) {
+    return url.trim().toLowerCase();
+  }
+};
+
+/**
+ * Text without Markdown syntax, whitespace or punctuation
+ */
+export const normalizeText = (markdown: string): string => {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '') // Images
+    .replace(/\]\([^)]*\)/g, '') // Link targets
+    .replace(/[\s\p{P}\p{S}]/gu, '')
+    .toLowerCase();
+};
+
+// FNV-1a over UTF-16 code units
+const fnv1a = (str: string, seed: number = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Second seed gives the upper 32 bits of a 64-bit hash
+const SEED_HIGH = 0x050c5d1f;
+
+const toHex = (high: number, low: number): string => {
+  return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+};
+
+export const contentHash = (text: string): string => {
+  return toHex(fnv1a(text, SEED_HIGH), fnv1a(text));
+};
+
+/**
+ * 64-bit SimHash over overlapping character shingles, as 16 hex digits
+ */
+export const simhash = (text: string): string => {
+  const weights = new Array(64).fill(0);
+  const chars = Array.from(text);
+  const count = Math.max(1, chars.length - SHINGLE_SIZE + 1);
+
+  for (let i = 0; i < count; i++) {
+    const shingle = chars.slice(i, i + SHINGLE_SIZE).join('');
+    const low = fnv1a(shingle);
+    const high = fnv1a(shingle, SEED_HIGH);
+    for (let bit = 0; bit < 32; bit++) {
+      weights[bit] += (low >>> bit) & 1 ? 1 : -1;
+      weights[bit + 32] += (high >>> bit) & 1 ? 1 : -1;
+    }
+  }
+
+  let low = 0;
+  let high = 0;
+  for (let bit = 0; bit < 32; bit++) {
+    if (weights[bit] > 0) low |= 1 << bit;
+    if (weights[bit + 32] > 0) high |= 1 << bit;
+  }
+  return toHex(high >>> 0, low >>> 0);
+};
+
+const popcount = (n: number): number => {
+  let count = 0;
+  for (let v = n >>> 0; v; v &= v - 1) count++;
+  return count;
+};
+
+/**
+ * Number of differing bits between two SimHashes
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  return popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16))
+    + popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16));
+};
+
+export const createFingerprint = (article: Article, jobId: string): ArticleFingerprint => {
+  const text = normalizeText(`${article.title}\n${article.content}`);
+  return {
+    urlKey: normalizeUrl(article.url),
+    url: article.url,
+    title: article.title,
+    date: article.date,
+    jobId,
+    contentHash: contentHash(text),
+    simhash: text.length >= MIN_SIMHASH_LENGTH ? simhash(text) : '',
+    seenAt: new Date().toISOString(),
+  };
+};
+
+const toMatch = (fingerprint: ArticleFingerprint, reason: DuplicateMatch['reason'], distance?: number): DuplicateMatch => ({
+  reason,
+  url: fingerprint.url,
+  title: fingerprint.title,
+  date: fingerprint.date,
+  ...(distance !== undefined ? { distance } : {}),
+});
+
+/**
+ * In-memory lookup over all known fingerprints
+ */
+export class FingerprintIndex {
+  private byUrl = new Map<string, ArticleFingerprint>();
+  private byHash = new Map<string, ArticleFingerprint>();
+  private all: ArticleFingerprint[] = [];
+
+  constructor(fingerprints: ArticleFingerprint[] = []) {
+    fingerprints.forEach(fingerprint => this.add(fingerprint));
+  }
+
+  get size(): number {
+    return this.all.length;
+  }
+
+  has(urlKey: string): boolean {
+    return this.byUrl.has(urlKey);
+  }
+
+  add(fingerprint: ArticleFingerprint) {
+    if (this.byUrl.has(fingerprint.urlKey)) return;
+    this.byUrl.set(fingerprint.urlKey, fingerprint);
+    if (!this.byHash.has(fingerprint.contentHash)) this.byHash.set(fingerprint.contentHash, fingerprint);
+    this.all.push(fingerprint);
+  }
+
+  /**
+   * An article from another job under the same URL
+   */
+  findByUrl(url: string, jobId: string): DuplicateMatch | null {
+    const seen = this.byUrl.get(normalizeUrl(url));
+    return seen && seen.jobId !== jobId ? toMatch(seen, 'url') : null;
+  }
+
+  /**
+   * The earlier article this one duplicates: same URL in another job, identical text, or near-identical text
+   */
+  findDuplicate(fingerprint: ArticleFingerprint): DuplicateMatch | null {
+    const sameUrl = this.byUrl.get(fingerprint.urlKey);
+    if (sameUrl && sameUrl.jobId !== fingerprint.jobId) return toMatch(sameUrl, 'url');
+
+    const sameText = this.byHash.get(fingerprint.contentHash);
+    if (sameText && sameText.urlKey !== fingerprint.urlKey) return toMatch(sameText, 'content');
+
+    if (!fingerprint.simhash) return null;
+    let best: ArticleFingerprint | null = null;
+    let bestDistance = SIMHASH_THRESHOLD + 1;
+    for (const other of this.all) {
+      if (!other.simhash || other.urlKey === fingerprint.urlKey) continue;
+      const distance = hammingDistance(fingerprint.simhash, other.simhash);
+      if (distance < bestDistance) {
+        best = other;
+        bestDistance = distance;
+      }
+    }
+    return best ? toMatch(best, 'similar', bestDistance) : null;
+  }
+}
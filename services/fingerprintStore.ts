@@ -0,0 +1,18 @@
+import { ArticleFingerprint } from '../types';
+import { FINGERPRINT_STORE, withStore } from './db';
+
+/**
+ * Fingerprints of every extracted article, kept in IndexedDB across runs
+ */
+
+export const saveFingerprint = async (fingerprint: ArticleFingerprint): Promise<void> => {
+  await withStore(FINGERPRINT_STORE, 'readwrite', (store) => store.put(fingerprint));
+};
+
+export const loadFingerprints = (): Promise<ArticleFingerprint[]> => {
+  return withStore<ArticleFingerprint[]>(FINGERPRINT_STORE, 'readonly', (store) => store.getAll());
+};
+
+export const clearFingerprints = async (): Promise<void> => {
+  await withStore(FINGERPRINT_STORE, 'readwrite', (store) => store.clear());
+};
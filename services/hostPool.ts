@@ -0,0 +1,86 @@
+/**
+ * Per-host worker pool
+ * Bounds the number of in-flight requests per host and enforces a minimum spacing
+ * between request starts on the same host.
+ */
+
+interface HostState {
+  inFlight: number;
+  nextStart: number; // Earliest timestamp the next request to this host may start
+  waiting: (() => void)[];
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+};
+
+export class HostPool {
+  private hosts = new Map<string, HostState>();
+
+  constructor(
+    private maxInFlight: number,
+    private minSpacingMs: number,
+    private sleep: (ms: number) => Promise<void> = defaultSleep
+  ) {}
+
+  private stateFor(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { inFlight: 0, nextStart: 0, waiting: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  private async acquire(host: string) {
+    const state = this.stateFor(host);
+
+    while (state.inFlight >= this.maxInFlight) {
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    }
+    state.inFlight++;
+
+    // Reserve the next start slot before sleeping so concurrent callers queue up behind it
+    const now = Date.now();
+    const start = Math.max(now, state.nextStart);
+    state.nextStart = start + this.minSpacingMs;
+    if (start > now) await this.sleep(start - now);
+  }
+
+  private release(host: string) {
+    const state = this.stateFor(host);
+    state.inFlight--;
+    const next = state.waiting.shift();
+    if (next) next();
+  }
+
+  /**
+   * Run a request for the given URL once its host has a free slot
+   */
+  async run<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const host = hostOf(url);
+    await this.acquire(host);
+    try {
+      return await task();
+    } finally {
+      this.release(host);
+    }
+  }
+
+  /**
+   * Current load, for logging
+   */
+  getStats(): { [host: string]: number } {
+    const stats: { [host: string]: number } = {};
+    this.hosts.forEach((state, host) => {
+      stats[host] = state.inFlight;
+    });
+    return stats;
+  }
+}
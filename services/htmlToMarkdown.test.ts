@@ -0,0 +1,46 @@
+import { readFileSync, readdirSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { DOMParser } from 'linkedom';
+import { htmlToMarkdown, markdownToText } from './htmlToMarkdown';
+
+// Each <name>.html holds an article body (#article_content); <name>.md is the expected Markdown
+const FIXTURES = new URL('./__fixtures__/markdown/', import.meta.url);
+const BASE_URL = 'http://paper.example.cn/html/2024-03/01/content_1.htm';
+
+const convert = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<html><body>${html}</body></html>`, 'text/html') as unknown as Document;
+  return htmlToMarkdown(doc.querySelector('#article_content')!, { baseUrl: BASE_URL });
+};
+
+const read = (file: string): string => readFileSync(new URL(file, FIXTURES), 'utf-8');
+
+describe('htmlToMarkdown', () => {
+  readdirSync(FIXTURES).filter(file => file.endsWith('.html')).forEach(file => {
+    it(`converts ${file}`, () => {
+      expect(convert(read(file))).toBe(read(file.replace(/\.html$/, '.md')).trimEnd());
+    });
+  });
+
+  it('keeps parentheses inside link targets', () => {
+    const markdown = convert('<div id="article_content"><p><a href="http://x.com/a_(b)">链接</a></p></div>');
+    expect(markdown).toBe('[链接](http://x.com/a_%28b%29)');
+  });
+});
+
+describe('markdownToText', () => {
+  it('removes the syntax and escapes htmlToMarkdown adds', () => {
+    const html = `<div id="article_content">
+      <h3>一、总体要求</h3>
+      <p><strong>记者：</strong>课程名为C*与<a href="/a.htm">[导读]</a>，文件名first_name。</p>
+      <blockquote><p>引用 <em>原文</em></p></blockquote>
+      <table><tr><td>学校</td><td>人数|合计</td></tr><tr><td>一中</td><td>1200</td></tr></table>
+    </div>`;
+    const markdown = convert(html);
+    expect(markdown).toContain('C\\*');
+    expect(markdownToText(markdown)).toBe('一、总体要求\n\n记者：课程名为C*与[导读]，文件名first_name。\n\n引用 原文\n\n学校 人数|合计\n一中 1200');
+  });
+
+  it('keeps list markers and paragraphs', () => {
+    expect(markdownToText('1. 第一条\n2. 第二条\n\n---\n\n- 要点')).toBe('1. 第一条\n2. 第二条\n\n- 要点');
+  });
+});
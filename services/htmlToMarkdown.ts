@@ -0,0 +1,291 @@
+/**
+ * HTML -> Markdown for article bodies
+ * Keeps headings, emphasis, lists, tables, blockquotes and links. Founder layout markup
+ * (spacer/layout tables, <font> wrappers, &nbsp; runs) is unwrapped or dropped.
+ * Works on any DOM implementation (browser DOMParser or linkedom in Node).
+ */
+
+export interface MarkdownOptions {
+  baseUrl?: string; // Resolves relative link targets
+}
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// Dropped with their content. Images are listed separately with their captions (see extractArticleImages).
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'object', 'embed', 'map', 'area',
+  'img', 'input', 'button', 'select', 'textarea', 'form', 'head', 'title', 'meta', 'link',
+]);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'div', 'dl', 'dt',
+  'figcaption', 'figure', 'footer', 'founder-content', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'tbody',
+  'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+const tagOf = (node: Node): string => ((node as Element).tagName || '').toLowerCase();
+
+const isElement = (node: Node): node is Element => node.nodeType === ELEMENT_NODE;
+
+// Collapses whitespace including &nbsp; runs; full-width spaces (U+3000) are kept as text
+const collapseSpaces = (str: string): string => str.replace(/[ \t\r\n\f\u00A0]+/g, ' ');
+
+// Paragraph trim also drops the full-width indent Chinese papers put at the start of paragraphs
+const trimParagraph = (str: string): string => str.replace(/^[\s\u3000]+|[\s\u3000]+$/g, '');
+
+const escapeMarkdown = (str: string): string => str.replace(/([\\`*_[\]])/g, '\\$1');
+
+// Append a text node's content. Some DOM implementations split one run of text into several
+// nodes (linkedom does at every &nbsp;), so spaces are collapsed across the join as well.
+const appendText = (current: string, text: string): string => {
+  const collapsed = escapeMarkdown(collapseSpaces(text));
+  return current.endsWith(' ') && collapsed.startsWith(' ') ? current + collapsed.slice(1) : current + collapsed;
+};
+
+const resolveHref = (href: string, baseUrl?: string): string => {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).href;
+  } catch (e) {
+    return href;
+  }
+};
+
+// Parentheses and whitespace would end the link target early; encodeURIComponent leaves ( and ) alone
+const LINK_TARGET_ESCAPES: { [char: string]: string } = { '(': '%28', ')': '%29' };
+
+const escapeLinkTarget = (url: string): string => {
+  return url.replace(/[()\s]/g, (char) => LINK_TARGET_ESCAPES[char] || encodeURIComponent(char));
+};
+
+const hasBlockChild = (el: Element): boolean => {
+  return Array.from(el.childNodes).some(child => isElement(child) && (BLOCK_TAGS.has(tagOf(child)) || hasBlockChild(child)));
+};
+
+// Move surrounding spaces outside emphasis markers ("** x **" isn't emphasis in Markdown)
+const wrapInline = (text: string, marker: string): string => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+  if (!match || !match[2]) return text;
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`;
+};
+
+const rowsOf = (table: Element): Element[] => {
+  // Rows of this table only, not of nested tables
+  return Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+};
+
+const cellsOf = (row: Element): Element[] => {
+  return Array.from(row.children).filter(cell => tagOf(cell) === 'td' || tagOf(cell) === 'th');
+};
+
+/**
+ * Founder pages nest the whole article in layout tables. Only tables that look like data
+ * (at least two rows with two or more non-empty cells, no nested tables) become Markdown tables.
+ */
+const isDataTable = (table: Element): boolean => {
+  if (table.querySelector('table')) return false;
+  const rows = rowsOf(table);
+  const multiCellRows = rows.filter(row => cellsOf(row).filter(cell => trimParagraph(collapseSpaces(cell.textContent || ''))).length >= 2);
+  return multiCellRows.length >= 2;
+};
+
+class MarkdownRenderer {
+  constructor(private options: MarkdownOptions) {}
+
+  /**
+   * Render a node's children as a list of Markdown blocks
+   */
+  blocks(parent: Node): string[] {
+    const blocks: string[] = [];
+    let inline = '';
+
+    const flush = () => {
+      // <br> inside a paragraph starts a new paragraph; newspaper bodies use it that way
+      inline.split('\n').forEach(line => {
+        const text = trimParagraph(line);
+        if (text) blocks.push(text);
+      });
+      inline = '';
+    };
+
+    Array.from(parent.childNodes).forEach(child => {
+      if (child.nodeType === TEXT_NODE) {
+        inline = appendText(inline, child.textContent || '');
+        return;
+      }
+      if (!isElement(child)) return;
+
+      const tag = tagOf(child);
+      if (SKIPPED_TAGS.has(tag)) return;
+
+      if (tag === 'br') {
+        inline += '\n';
+      } else if (BLOCK_TAGS.has(tag) || hasBlockChild(child)) {
+        flush();
+        blocks.push(...this.block(child));
+      } else {
+        inline += this.inline(child);
+      }
+    });
+
+    flush();
+    return blocks;
+  }
+
+  private block(el: Element): string[] {
+    const tag = tagOf(el);
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = trimParagraph(this.inlineText(el));
+      // The article title is the document's H1, so body headings start at H2
+      const level = Math.max(parseInt(tag[1], 10), 2);
+      return text ? [`${'#'.repeat(level)} ${text}`] : [];
+    }
+
+    switch (tag) {
+      case 'hr':
+        return ['---'];
+      case 'pre': {
+        const code = (el.textContent || '').replace(/\n+$/, '');
+        return code.trim() ? [`\`\`\`\n${code}\n\`\`\``] : [];
+      }
+      case 'blockquote': {
+        const inner = this.blocks(el).join('\n\n');
+        return inner ? [inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n')] : [];
+      }
+      case 'ul':
+      case 'ol':
+        return this.list(el, tag === 'ol');
+      case 'table':
+        return isDataTable(el) ? this.table(el) : this.blocks(el);
+      default:
+        // Containers (div, p, td of layout tables, <font> wrapping paragraphs...) just pass their blocks through
+        return this.blocks(el);
+    }
+  }
+
+  private list(el: Element, ordered: boolean): string[] {
+    const start = parseInt(el.getAttribute('start') || '1', 10) || 1;
+    const items = Array.from(el.children).filter(child => tagOf(child) === 'li');
+
+    const lines = items.map((item, index) => {
+      const marker = ordered ? `${start + index}. ` : '- ';
+      const body = this.blocks(item).join('\n\n');
+      if (!body) return '';
+      const indent = ' '.repeat(marker.length);
+      return marker + body.split('\n').map((line, i) => (i === 0 || !line ? line : indent + line)).join('\n');
+    }).filter(line => line);
+
+    return lines.length > 0 ? [lines.join('\n')] : [];
+  }
+
+  private table(el: Element): string[] {
+    const rows = rowsOf(el).map(row => {
+      const cells: string[] = [];
+      cellsOf(row).forEach(cell => {
+        const text = this.blocks(cell).join(' ').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+        cells.push(text);
+        // Spanned columns become empty cells so the grid stays aligned
+        const span = parseInt(cell.getAttribute('colspan') || '1', 10);
+        for (let i = 1; i < span; i++) cells.push('');
+      });
+      return cells;
+    }).filter(cells => cells.some(cell => cell));
+
+    if (rows.length === 0) return [];
+
+    const width = Math.max(...rows.map(cells => cells.length));
+    const line = (cells: string[]) => {
+      const padded = [...cells, ...Array(width - cells.length).fill('')];
+      return `| ${padded.join(' | ')} |`;
+    };
+
+    // GFM tables need a header row; the first row is the header in practice
+    const [header, ...body] = rows;
+    return [[line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n')];
+  }
+
+  private inline(el: Element): string {
+    const tag = tagOf(el);
+    const text = this.inlineText(el);
+
+    switch (tag) {
+      case 'strong':
+      case 'b':
+        return wrapInline(text, '**');
+      case 'em':
+      case 'i':
+        return wrapInline(text, '*');
+      case 'del':
+      case 's':
+      case 'strike':
+        return wrapInline(text, '~~');
+      case 'code':
+        return text.trim() ? `\`${(el.textContent || '').replace(/`/g, '')}\`` : text;
+      case 'a': {
+        const href = (el.getAttribute('href') || '').trim();
+        if (!text.trim() || !href || href.startsWith('#') || href.toLowerCase().startsWith('javascript')) return text;
+        return `[${text.trim()}](${escapeLinkTarget(resolveHref(href, this.options.baseUrl))})`;
+      }
+      default:
+        // font, span, u, sup, sub and unknown wrappers
+        return text;
+    }
+  }
+
+  private inlineText(el: Element): string {
+    let text = '';
+    Array.from(el.childNodes).forEach(child => {
+      if (child.nodeType === TEXT_NODE) {
+        text = appendText(text, child.textContent || '');
+      } else if (isElement(child) && !SKIPPED_TAGS.has(tagOf(child))) {
+        text += tagOf(child) === 'br' ? '\n' : this.inline(child);
+      }
+    });
+    return text;
+  }
+}
+
+/**
+ * Convert an element's content to Markdown
+ */
+export const htmlToMarkdown = (root: Element, options: MarkdownOptions = {}): string => {
+  return new MarkdownRenderer(options)
+    .blocks(root)
+    .join('\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Inline syntax htmlToMarkdown writes: escapes, images and links (keeping their text), emphasis, strike and code markers
+const INLINE_SYNTAX = /\\([\\`*_[\]|])|!?\[((?:\\.|[^\]\\])*)\]\([^)\s]*\)|\*\*|~~|\*|`/g;
+
+const stripInline = (text: string): string => {
+  return text.replace(INLINE_SYNTAX, (_match, escaped?: string, label?: string) => {
+    if (escaped) return escaped;
+    return label !== undefined ? stripInline(label) : '';
+  });
+};
+
+const TABLE_SEPARATOR = /^\|( --- \|)+$/;
+
+/**
+ * Plain text of Markdown written by htmlToMarkdown, for consumers that count, index or prompt with the
+ * text: syntax and backslash escapes are removed, paragraphs and list markers are kept, table cells
+ * are separated by spaces.
+ */
+export const markdownToText = (markdown: string): string => {
+  return markdown
+    .split('\n')
+    .filter(line => line !== '---' && !line.startsWith('```') && !TABLE_SEPARATOR.test(line))
+    .map(line => {
+      const unquoted = line.replace(/^(> ?)+/, '');
+      if (/^\| .* \|$/.test(unquoted)) return unquoted.slice(2, -2).split(' | ').map(stripInline).join(' ').trim();
+      return stripInline(unquoted.replace(/^#{1,6} /, ''));
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
@@ -0,0 +1,31 @@
+import { ScrapeJob } from '../types';
+import { JOB_STORE, withStore } from './db';
+
+/**
+ * Persist the job checkpoint
+ */
+export const saveJob = async (job: ScrapeJob): Promise<void> => {
+  job.updatedAt = new Date().toISOString();
+  await withStore(JOB_STORE, 'readwrite', (store) => store.put(job));
+};
+
+export const loadJob = (id: string): Promise<ScrapeJob | undefined> => {
+  return withStore<ScrapeJob | undefined>(JOB_STORE, 'readonly', (store) => store.get(id));
+};
+
+export const listJobs = async (): Promise<ScrapeJob[]> => {
+  const jobs = await withStore<ScrapeJob[]>(JOB_STORE, 'readonly', (store) => store.getAll());
+  return jobs.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Most recently updated job that has not finished yet (if any)
+ */
+export const loadResumableJob = async (): Promise<ScrapeJob | undefined> => {
+  const jobs = await listJobs();
+  return jobs.find((job) => job.status !== 'completed');
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  await withStore(JOB_STORE, 'readwrite', (store) => store.delete(id));
+};
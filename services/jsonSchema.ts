@@ -0,0 +1,72 @@
+/**
+ * The subset of JSON Schema used for structured LLM output
+ * Enough to describe flat records of strings and string lists, to pass to providers that support
+ * schema-constrained output, and to validate what comes back.
+ */
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string';
+  description?: string;
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+}
+
+/**
+ * Problems with a value, as "path: message"; empty when it matches the schema
+ */
+export const validateJson = (value: unknown, schema: JsonSchema, path: string = '$'): string[] => {
+  if (schema.type === 'string') {
+    if (typeof value !== 'string') return [`${path}: expected a string`];
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${path}: too short`];
+    return [];
+  }
+
+  if (schema.type === 'array') {
+    if (!Array.isArray(value)) return [`${path}: expected an array`];
+    const errors: string[] = [];
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: expected at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: expected at most ${schema.maxItems} items`);
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => errors.push(...validateJson(item, items, `${path}[${index}]`)));
+    }
+    return errors;
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected an object`];
+  const record = value as { [name: string]: unknown };
+  const errors: string[] = [];
+  (schema.required || []).forEach(name => {
+    if (!(name in record)) errors.push(`${path}.${name}: missing`);
+  });
+  Object.entries(schema.properties || {}).forEach(([name, property]) => {
+    if (name in record) errors.push(...validateJson(record[name], property, `${path}.${name}`));
+  });
+  return errors;
+};
+
+/**
+ * Smallest value matching the schema, e.g. for a mock provider
+ */
+export const exampleValue = (schema: JsonSchema, name: string = 'value'): unknown => {
+  if (schema.type === 'string') return name;
+  if (schema.type === 'array') {
+    const items = schema.items || { type: 'string' };
+    return Array.from({ length: schema.minItems || 0 }, (_, index) => exampleValue(items, `${name} ${index + 1}`));
+  }
+  return Object.fromEntries(
+    Object.entries(schema.properties || {}).map(([key, property]) => [key, exampleValue(property, key)])
+  );
+};
+
+/**
+ * Parse JSON from model output, tolerating a surrounding ```json fence
+ */
+export const parseJsonOutput = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : text).trim());
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { addUsage, createMockProvider, createOpenAiProvider, estimateTokens } from './llmProvider';
+import { JsonSchema } from './jsonSchema';
+
+const SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { summary: { type: 'string' }, keywords: { type: 'array', items: { type: 'string' } } },
+  required: ['summary', 'keywords'],
+};
+
+// Records the requests and answers each with the given status and JSON body
+const fakeFetch = (status: number, body: unknown) => {
+  const requests: { url: string; init: RequestInit }[] = [];
+  const fetchImpl: typeof fetch = async (input, init) => {
+    requests.push({ url: String(input), init: init || {} });
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  };
+  return { requests, fetchImpl };
+};
+
+describe('createMockProvider', () => {
+  it('answers deterministically with estimated usage', async () => {
+    const provider = createMockProvider();
+    const first = await provider.generate({ prompt: '  清理这篇文章  ' });
+    const second = await provider.generate({ prompt: '  清理这篇文章  ' });
+    expect(first).toEqual(second);
+    expect(first.text).toBe('清理这篇文章');
+    expect(first.usage).toEqual({ inputTokens: estimateTokens('  清理这篇文章  '), outputTokens: estimateTokens('清理这篇文章'), estimated: true });
+  });
+
+  it('returns an example value for JSON requests and uses respond when given', async () => {
+    const json = await createMockProvider().generate({ prompt: 'x', jsonSchema: SCHEMA });
+    expect(Object.keys(JSON.parse(json.text)).sort()).toEqual(['keywords', 'summary']);
+
+    const custom = await createMockProvider({ respond: prompt => `echo:${prompt}` }).generate({ prompt: 'x' });
+    expect(custom.text).toBe('echo:x');
+  });
+
+  it('fails the configured number of calls, then answers', async () => {
+    const provider = createMockProvider({ failures: 2 });
+    await expect(provider.generate({ prompt: 'x' })).rejects.toThrow('Mock provider failure');
+    await expect(provider.generate({ prompt: 'x' })).rejects.toThrow('Mock provider failure');
+    await expect(provider.generate({ prompt: 'x' })).resolves.toMatchObject({ text: 'x' });
+  });
+
+  it('rejects an aborted request', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createMockProvider().generate({ prompt: 'x', signal: controller.signal })).rejects.toThrow('Request aborted');
+  });
+});
+
+describe('createOpenAiProvider', () => {
+  it('posts a chat completion and reads the reported usage', async () => {
+    const { requests, fetchImpl } = fakeFetch(200, {
+      choices: [{ message: { content: '{"summary":"摘要","keywords":[]}' } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30 },
+    });
+    const provider = createOpenAiProvider({ provider: 'openai', model: 'qwen2.5', baseUrl: 'http://localhost:11434/v1/', apiKey: 'sk-test' }, fetchImpl);
+
+    const result = await provider.generate({ prompt: '总结', jsonSchema: SCHEMA });
+
+    expect(result).toEqual({ text: '{"summary":"摘要","keywords":[]}', usage: { inputTokens: 120, outputTokens: 30 } });
+    expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(String(requests[0].init.body))).toEqual({
+      model: 'qwen2.5',
+      messages: [{ role: 'user', content: '总结' }],
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('estimates usage when the endpoint reports none, and marks it', async () => {
+    const prompt = '请清理下面的文章正文';
+    const { fetchImpl } = fakeFetch(200, { choices: [{ message: { content: '清理后的正文' } }] });
+    const result = await createOpenAiProvider({ provider: 'openai' }, fetchImpl).generate({ prompt });
+    expect(result.usage).toEqual({ inputTokens: 10, outputTokens: 6, estimated: true });
+  });
+
+  it('throws with the endpoint\'s error message, or when there is no text', async () => {
+    const failing = fakeFetch(429, { error: { message: 'Rate limit reached' } });
+    await expect(createOpenAiProvider({ provider: 'openai' }, failing.fetchImpl).generate({ prompt: 'x' }))
+      .rejects.toThrow('https://api.openai.com/v1 returned HTTP 429: Rate limit reached');
+
+    const empty = fakeFetch(200, { choices: [] });
+    await expect(createOpenAiProvider({ provider: 'openai' }, empty.fetchImpl).generate({ prompt: 'x' }))
+      .rejects.toThrow('gpt-4o-mini returned no text');
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts a token per Han character and four characters per token otherwise', () => {
+    expect(estimateTokens('教育部发布新学期工作要点')).toBe(12);
+    expect(estimateTokens('Ministry of Education')).toBe(6);
+    expect(estimateTokens('2024年AI教育大会')).toBe(5 + 2);
+    expect(estimateTokens('𠮷野家')).toBe(3);
+  });
+});
+
+describe('addUsage', () => {
+  it('sums the counts and keeps the estimated mark', () => {
+    const reported = { inputTokens: 100, outputTokens: 20 };
+    expect(addUsage(reported, reported)).toEqual({ inputTokens: 200, outputTokens: 40 });
+    expect(addUsage(reported, { inputTokens: 5, outputTokens: 1, estimated: true })).toEqual({ inputTokens: 105, outputTokens: 21, estimated: true });
+  });
+});
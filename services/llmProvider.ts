@@ -0,0 +1,165 @@
+import { LlmProviderId, ScrapeConfig, TokenUsage } from '../types';
+import { JsonSchema, exampleValue } from './jsonSchema';
+
+/**
+ * Provider-agnostic LLM layer
+ * Features that need a model (AI cleanup, ...) talk to an LlmProvider and never to a vendor SDK, so the
+ * same code runs against Gemini, any OpenAI-compatible chat-completions endpoint (OpenAI, Ollama,
+ * llama.cpp, vLLM, ...) or the deterministic mock used in tests.
+ */
+
+export interface LlmRequest {
+  prompt: string;
+  jsonSchema?: JsonSchema; // Ask for a JSON answer of this shape (the caller still validates it)
+  signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+  text: string;
+  usage: TokenUsage; // Marked estimated when the endpoint doesn't report usage
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model?: string; // Empty = provider default
+  baseUrl?: string; // OpenAI-compatible endpoints only; empty = provider default
+  apiKey?: string;
+}
+
+export const LLM_PROVIDERS: { id: LlmProviderId; label: string; defaultModel: string; defaultBaseUrl?: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini', defaultBaseUrl: 'https://api.openai.com/v1' },
+  { id: 'mock', label: 'Mock (offline, for tests)', defaultModel: 'mock' },
+];
+
+export const providerInfo = (id: LlmProviderId) => LLM_PROVIDERS.find(p => p.id === id) || LLM_PROVIDERS[0];
+
+/**
+ * Provider settings from the AI part of a config; the API key is stored separately (see apiKeyStore)
+ */
+export const llmSettingsFromConfig = (config: ScrapeConfig, apiKey?: string): LlmSettings => ({
+  provider: config.llmProvider || 'gemini',
+  model: config.llmModel,
+  baseUrl: config.llmBaseUrl,
+  apiKey,
+});
+
+const HAN = /\p{Script=Han}/gu;
+
+/**
+ * Rough token count for endpoints that don't report usage
+ * About one token per Han character and four characters per token for everything else.
+ */
+export const estimateTokens = (text: string): number => {
+  const han = text.match(HAN)?.length ?? 0;
+  return han + Math.ceil(text.replace(HAN, '').length / 4);
+};
+
+/**
+ * Usage for a response, estimating each count the endpoint left out
+ */
+export const responseUsage = (prompt: string, text: string, inputTokens?: number, outputTokens?: number): TokenUsage => {
+  const usage: TokenUsage = {
+    inputTokens: inputTokens ?? estimateTokens(prompt),
+    outputTokens: outputTokens ?? estimateTokens(text),
+  };
+  if (inputTokens === undefined || outputTokens === undefined) usage.estimated = true;
+  return usage;
+};
+
+/**
+ * Sum of two usages; estimated when either is
+ */
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => {
+  const sum: TokenUsage = { inputTokens: a.inputTokens + b.inputTokens, outputTokens: a.outputTokens + b.outputTokens };
+  if (a.estimated || b.estimated) sum.estimated = true;
+  return sum;
+};
+
+export interface MockProviderOptions {
+  respond?: (prompt: string) => string; // Defaults to echoing the prompt, or an example value for JSON requests
+  failures?: number; // Fail this many calls before answering, to exercise retries
+}
+
+/**
+ * Deterministic provider: same prompt, same answer, no network
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): LlmProvider => {
+  let failuresLeft = options.failures || 0;
+  return {
+    id: 'mock',
+    model: 'mock',
+    async generate({ prompt, jsonSchema, signal }) {
+      if (signal?.aborted) throw new Error('Request aborted');
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new Error('Mock provider failure');
+      }
+      const fallback = jsonSchema ? JSON.stringify(exampleValue(jsonSchema)) : prompt.trim();
+      const text = options.respond ? options.respond(prompt) : fallback;
+      return { text, usage: responseUsage(prompt, text) };
+    },
+  };
+};
+
+/**
+ * Any endpoint implementing POST {baseUrl}/chat/completions
+ */
+export const createOpenAiProvider = (settings: LlmSettings, fetchImpl: typeof fetch = fetch): LlmProvider => {
+  const info = providerInfo('openai');
+  const model = settings.model || info.defaultModel;
+  const baseUrl = (settings.baseUrl || info.defaultBaseUrl as string).replace(/\/+$/, '');
+
+  return {
+    id: 'openai',
+    model,
+    async generate({ prompt, jsonSchema, signal }) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      // Local servers usually don't need a key
+      if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+      const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          // JSON mode is the widely supported form; the schema itself goes in the prompt
+          ...(jsonSchema ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal,
+      });
+
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(`${baseUrl} returned HTTP ${response.status}${body?.error?.message ? `: ${body.error.message}` : ''}`);
+      }
+
+      const text = body?.choices?.[0]?.message?.content;
+      if (!text) throw new Error(`${model} returned no text`);
+
+      return {
+        text,
+        // Local servers (llama.cpp, some Ollama versions) often leave usage out
+        usage: responseUsage(prompt, text, body.usage?.prompt_tokens, body.usage?.completion_tokens),
+      };
+    },
+  };
+};
+
+/**
+ * Provider for the given settings
+ * Gemini is loaded on demand so the SDK stays out of bundles and CLI runs that don't use it.
+ */
+export const createLlmProvider = async (settings: LlmSettings): Promise<LlmProvider> => {
+  if (settings.provider === 'openai') return createOpenAiProvider(settings);
+  if (settings.provider === 'mock') return createMockProvider();
+  const { createGeminiProvider } = await import('./geminiService');
+  return createGeminiProvider(settings);
+};
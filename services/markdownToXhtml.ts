@@ -0,0 +1,268 @@
+/**
+ * Markdown to XHTML for EPUB chapters
+ * Covers what htmlToMarkdown produces (and what the AI cleanup typically returns): headings,
+ * paragraphs, lists, blockquotes, code blocks, GFM tables, emphasis, links and images.
+ * Output is always well-formed XML; raw HTML in the Markdown is escaped, not passed through.
+ */
+
+export interface XhtmlOptions {
+  // Markup for an image; by default an <img> with the source as-is
+  image?: (src: string, alt: string) => string;
+}
+
+// Characters XML 1.0 doesn't allow, even escaped
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g;
+
+export const escapeXml = (str: string): string => {
+  return str
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const ESCAPABLE = /[\\`*_[\]()#+\-.!|~>{}]/;
+
+const defaultImage = (src: string, alt: string): string => `<img src="${escapeXml(src)}" alt="${escapeXml(alt)}" />`;
+
+// Index of the next unescaped delimiter from `from`, or -1
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(delimiter, i)) {
+      // A single * must not close on the first half of **
+      if (delimiter === '*' && text[i + 1] === '*') {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+};
+
+// [label](target) starting at `start` (the '[')
+const parseLink = (text: string, start: number): { label: string; target: string; end: number } | null => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      if (text[i + 1] !== '(') return null;
+      const close = text.indexOf(')', i + 2);
+      if (close === -1) return null;
+      return { label: text.slice(start + 1, i), target: text.slice(i + 2, close).trim(), end: close + 1 };
+    }
+  }
+  return null;
+};
+
+// Markdown escapes removed, for alt text
+const unescape = (text: string): string => text.replace(/\\(.)/g, '$1');
+
+const EMPHASIS: [string, string][] = [['**', 'strong'], ['~~', 'del'], ['*', 'em']];
+
+const renderInline = (text: string, options: XhtmlOptions): string => {
+  let out = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      out += escapeXml(text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        out += `<code>${escapeXml(text.slice(i + 1, end))}</code>`;
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (ch === '!' && text[i + 1] === '[') {
+      const link = parseLink(text, i + 1);
+      if (link) {
+        out += (options.image || defaultImage)(link.target, unescape(link.label));
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '[') {
+      const link = parseLink(text, i);
+      if (link) {
+        out += `<a href="${escapeXml(link.target)}">${renderInline(link.label, options)}</a>`;
+        i = link.end;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS.find(([delimiter]) => text.startsWith(delimiter, i));
+    if (emphasis) {
+      const [delimiter, tag] = emphasis;
+      const close = findClosing(text, delimiter, i + delimiter.length);
+      if (close > i + delimiter.length) {
+        out += `<${tag}>${renderInline(text.slice(i + delimiter.length, close), options)}</${tag}>`;
+        i = close + delimiter.length;
+        continue;
+      }
+    }
+
+    out += escapeXml(ch);
+    i++;
+  }
+
+  return out;
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// Cells of a table row, splitting on unescaped pipes
+const tableCells = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  const row = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const renderBlocks = (lines: string[], options: XhtmlOptions): string[] => {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) html.push(`<p>${renderInline(paragraph.join('\n'), options)}</p>`);
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      flush();
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+      html.push(`<pre><code>${escapeXml(code.join('\n'))}</code></pre>`);
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      html.push(`<h${level}>${renderInline(heading[2], options)}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line) && paragraph.length === 0) {
+      html.push('<hr />');
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]); i++) quoted.push(lines[i].replace(/^\s*>\s?/, ''));
+      html.push(`<blockquote>${renderBlocks(quoted, options).join('')}</blockquote>`);
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      flush();
+      const header = tableCells(line);
+      const rows: string[][] = [];
+      for (i += 2; i < lines.length && lines[i].includes('|'); i++) rows.push(tableCells(lines[i]));
+      const cells = (row: string[], tag: string) => row.map(cell => `<${tag}>${renderInline(cell, options)}</${tag}>`).join('');
+      const body = rows.map(row => `<tr>${cells(row, 'td')}</tr>`).join('');
+      html.push(`<table><thead><tr>${cells(header, 'th')}</tr></thead>${body ? `<tbody>${body}</tbody>` : ''}</table>`);
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item && paragraph.length === 0) {
+      const indent = item[1].length;
+      const ordered = /\d/.test(item[2]);
+      const items: string[][] = [];
+      let offset = 0; // Width of the current item's marker; continuation lines are indented by it
+
+      // An item runs until the next marker at the same indent; indented lines belong to it
+      while (i < lines.length) {
+        const current = LIST_ITEM.exec(lines[i]);
+        const lineIndent = lines[i].search(/\S/);
+        if (current && current[1].length === indent && /\d/.test(current[2]) === ordered) {
+          items.push([current[3]]);
+          offset = current[0].length - current[3].length;
+        } else if (!lines[i].trim()) {
+          // A blank line ends the list unless the item continues below it
+          if (i + 1 >= lines.length || lines[i + 1].search(/\S/) <= indent) break;
+          items[items.length - 1].push('');
+        } else if (lineIndent > indent) {
+          items[items.length - 1].push(lines[i].slice(Math.min(lineIndent, offset)));
+        } else {
+          break;
+        }
+        i++;
+      }
+
+      const start = ordered ? parseInt(item[2], 10) : 1;
+      const tag = ordered ? 'ol' : 'ul';
+      const rendered = items.map(body => {
+        const blocks = renderBlocks(body, options);
+        // Tight items (one paragraph, maybe a nested list) hold their text directly
+        const tight = blocks.length === 1 || (blocks.length === 2 && /^<[uo]l/.test(blocks[1]));
+        if (tight && blocks[0].startsWith('<p>')) blocks[0] = blocks[0].slice(3, -4);
+        return `<li>${blocks.join('')}</li>`;
+      });
+      html.push(`<${tag}${ordered && start !== 1 ? ` start="${start}"` : ''}>${rendered.join('')}</${tag}>`);
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+
+  flush();
+  return html;
+};
+
+/**
+ * Convert Markdown to an XHTML fragment
+ */
+export const markdownToXhtml = (markdown: string, options: XhtmlOptions = {}): string => {
+  return renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'), options).join('\n');
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { VAULT_INDEX_NOTE, buildObsidianExport, renderNoteFrontmatter } from './obsidianExport';
+
+const article = (id: string, date: string, title: string, fields: Partial<Article> = {}): Article => ({
+  id,
+  date,
+  page: '01',
+  title,
+  content: '正文。',
+  markdown: `# ${title}\n\n正文。`,
+  url: `http://paper.example.cn/html/${date.slice(0, 7)}/${date.slice(8)}/content_${id}.htm`,
+  images: [],
+  status: 'success',
+  ...fields,
+});
+
+const ARTICLES = [
+  article('1', '2024-03-01', '教育部发布新学期工作要点', {
+    pageLabel: '第01版',
+    section: '要闻 时政',
+    author: '王芳',
+    pages: ['01', '04'],
+    scrapedAt: '2024-03-01T08:00:00.000Z',
+    enrichment: {
+      summary: '教育部部署"新学期"工作。',
+      keywords: ['新学期', '开学'],
+      people: [],
+      organizations: ['教育部'],
+      places: [],
+      model: 'mock',
+      enrichedAt: '2024-03-01T09:00:00.000Z',
+    },
+  }),
+  article('2', '2024-03-01', '评论[一]|开学第一课', { page: '02', pageLabel: '第02版' }),
+  article('3', '2024-03-02', '乡村教师待遇持续提高'),
+];
+
+// Reads the simple YAML the export writes: scalars (JSON strings or bare values) and lists of them
+const parseFrontmatter = (note: string): { [key: string]: unknown } => {
+  const match = /^---\n([\s\S]*?)\n---\n/.exec(note);
+  if (!match) throw new Error('No frontmatter');
+  const result: { [key: string]: unknown } = {};
+  let listKey = '';
+  const value = (raw: string) => (raw.startsWith('"') ? JSON.parse(raw) : /^\d+$/.test(raw) ? Number(raw) : raw);
+  match[1].split('\n').forEach(line => {
+    const item = /^ {2}- (.*)$/.exec(line);
+    if (item) {
+      (result[listKey] as unknown[]).push(value(item[1]));
+      return;
+    }
+    const [, key, raw] = /^(\w+):(?: (.*))?$/.exec(line)!;
+    if (raw === undefined) {
+      listKey = key;
+      result[key] = [];
+    } else {
+      result[key] = value(raw);
+    }
+  });
+  return result;
+};
+
+describe('renderNoteFrontmatter', () => {
+  it('writes properties that read back, leaving empty fields out', () => {
+    expect(parseFrontmatter(renderNoteFrontmatter(ARTICLES[0]))).toEqual({
+      title: '教育部发布新学期工作要点',
+      date: '2024-03-01',
+      page: '01',
+      page_label: '第01版',
+      section: '要闻 时政',
+      author: '王芳',
+      source: 'http://paper.example.cn/html/2024-03/01/content_1.htm',
+      scraped_at: '2024-03-01T08:00:00.000Z',
+      day: '[[2024-03-01]]',
+      summary: '教育部部署"新学期"工作。',
+      pages: ['01', '04'],
+      keywords: ['新学期', '开学'],
+      organizations: ['教育部'],
+      tags: ['newspaper', 'section/要闻_时政'],
+    });
+  });
+});
+
+describe('buildObsidianExport', () => {
+  const files = Object.fromEntries(buildObsidianExport(ARTICLES).map(file => [file.path, file.content as string]));
+
+  it('writes a note per article, a note per date and the index', () => {
+    expect(Object.keys(files).sort()).toEqual([
+      '2024-03-01/001_第01版_要闻_时政_教育部发布新学期工作要点.md',
+      '2024-03-01/002_第02版_评论_一__开学第一课.md',
+      '2024-03-01/2024-03-01.md',
+      '2024-03-02/001_乡村教师待遇持续提高.md',
+      '2024-03-02/2024-03-02.md',
+      `${VAULT_INDEX_NOTE}.md`,
+    ]);
+    expect(files['2024-03-02/001_乡村教师待遇持续提高.md']).toBe(`${renderNoteFrontmatter(ARTICLES[2])}\n${ARTICLES[2].markdown}\n`);
+  });
+
+  it('links every article from its date note, and every date from the index', () => {
+    const links = (note: string) => Array.from(note.matchAll(/\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g), match => match[1]);
+    const notes = new Set(Object.keys(files).map(path => path.replace(/\.md$/, '')));
+    const daily = files['2024-03-01/2024-03-01.md'];
+
+    expect(links(daily)).toEqual([VAULT_INDEX_NOTE, '2024-03-01/001_第01版_要闻_时政_教育部发布新学期工作要点', '2024-03-01/002_第02版_评论_一__开学第一课']);
+    links(daily).forEach(link => expect(notes.has(link), link).toBe(true));
+    expect(daily).toContain('## 第02版\n\n- [[2024-03-01/002_第02版_评论_一__开学第一课|评论 一  开学第一课]]');
+    expect(parseFrontmatter(daily)).toEqual({ date: '2024-03-01', articles: 2, tags: ['newspaper/day'] });
+
+    expect(links(files[`${VAULT_INDEX_NOTE}.md`])).toEqual(['2024-03-01', '2024-03-02']);
+  });
+});
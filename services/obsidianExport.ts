@@ -0,0 +1,140 @@
+import { Article } from '../types';
+import { ExportFile, articleFileName, groupArticlesByDate } from './exportService';
+
+/**
+ * Obsidian vault export
+ * Article notes with queryable YAML properties, one index note per date listing its articles by
+ * page with wiki-links, and a top-level index of all dates. Drops straight into a vault.
+ */
+
+export const VAULT_INDEX_NOTE = 'Index';
+
+// Characters that break wiki-links in note names
+const WIKILINK_UNSAFE = /[\[\]#^|]/g;
+
+/**
+ * Note file name of an article inside its date folder (without the .md extension)
+ */
+export const noteName = (article: Article, index: number): string => {
+  return articleFileName(article, index).replace(/\.md$/, '').replace(WIKILINK_UNSAFE, '_');
+};
+
+// Tag values can't contain spaces or most punctuation
+const tag = (prefix: string, value: string): string => {
+  return `${prefix}/${value.replace(/[\s#,\[\]{}|^"'`]+/g, '_')}`;
+};
+
+// Plain dates stay unquoted so Obsidian and Dataview read them as dates
+const yamlValue = (value: string): string => (/^\d{4}-\d{2}-\d{2}$/.test(value) ? value : JSON.stringify(value));
+
+const yamlList = (key: string, values: string[]): string => {
+  return values.length > 0 ? `${key}:\n${values.map(value => `  - ${yamlValue(value)}`).join('\n')}` : '';
+};
+
+/**
+ * YAML properties of an article note; empty fields are left out
+ */
+export const renderNoteFrontmatter = (article: Article): string => {
+  const tags = ['newspaper'];
+  if (article.section) tags.push(tag('section', article.section));
+  if (article.column) tags.push(tag('column', article.column));
+
+  const fields: [string, string | undefined][] = [
+    ['title', article.title],
+    ['date', article.date],
+    ['page', article.page],
+    ['page_label', article.pageLabel],
+    ['section', article.section],
+    ['column', article.column],
+    ['author', article.author],
+    ['source', article.url],
+    ['scraped_at', article.scrapedAt],
+    ['day', `[[${article.date}]]`],
+    ['summary', article.enrichment?.summary],
+  ];
+  const lines = fields
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}: ${yamlValue(value as string)}`);
+  if (article.pages && article.pages.length > 1) lines.push(yamlList('pages', article.pages));
+  if (article.enrichment) {
+    const { keywords, people, organizations, places } = article.enrichment;
+    [yamlList('keywords', keywords), yamlList('people', people), yamlList('organizations', organizations), yamlList('places', places)]
+      .filter(list => list)
+      .forEach(list => lines.push(list));
+  }
+  lines.push(yamlList('tags', tags));
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+const pageHeading = (article: Article): string => {
+  return [article.pageLabel || `Page ${article.page}`, article.section].filter(Boolean).join(' ');
+};
+
+/**
+ * Index note of one date: its articles grouped by page, as wiki-links
+ */
+const renderDailyNote = (date: string, articles: Article[], names: string[]): string => {
+  const lines = [
+    '---',
+    `date: ${yamlValue(date)}`,
+    `articles: ${articles.length}`,
+    yamlList('tags', ['newspaper/day']),
+    '---',
+    '',
+    `# ${date}`,
+    '',
+    `Back to [[${VAULT_INDEX_NOTE}]]`,
+  ];
+
+  let heading = '';
+  articles.forEach((article, index) => {
+    const current = pageHeading(article);
+    if (current !== heading) {
+      heading = current;
+      lines.push('', `## ${heading}`, '');
+    }
+    const byline = article.author ? ` — ${article.author}` : '';
+    lines.push(`- [[${date}/${names[index]}|${article.title.replace(WIKILINK_UNSAFE, ' ')}]]${byline}`);
+  });
+
+  return `${lines.join('\n')}\n`;
+};
+
+const renderIndexNote = (articlesByDate: { [date: string]: Article[] }): string => {
+  const dates = Object.keys(articlesByDate).sort();
+  const lines = [
+    '---',
+    yamlList('tags', ['newspaper/index']),
+    '---',
+    '',
+    '# Newspaper Archive',
+    '',
+    ...dates.map(date => `- [[${date}]] (${articlesByDate[date].length} articles)`),
+  ];
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Vault layout: Index.md, and per date a folder with the date's index note and one note per article
+ * Downloaded images go in the same date folders as in the Markdown export (see collectAssetFiles).
+ */
+export const buildObsidianExport = (articles: Article[]): ExportFile[] => {
+  const files: ExportFile[] = [];
+  const articlesByDate = groupArticlesByDate(articles);
+
+  Object.keys(articlesByDate).sort().forEach(date => {
+    const dayArticles = articlesByDate[date];
+    const names = dayArticles.map((article, index) => noteName(article, index));
+
+    dayArticles.forEach((article, index) => {
+      files.push({
+        path: `${date}/${names[index]}.md`,
+        content: `${renderNoteFrontmatter(article)}\n${article.markdown}\n`,
+      });
+    });
+    files.push({ path: `${date}/${date}.md`, content: renderDailyNote(date, dayArticles, names) });
+  });
+
+  files.push({ path: `${VAULT_INDEX_NOTE}.md`, content: renderIndexNote(articlesByDate) });
+  return files;
+};
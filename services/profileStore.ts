@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProfileConfig, ScrapeConfig, SiteProfile } from '../types';
+import { BUILTIN_PROFILES } from '../constants';
+
+/**
+ * Named site profiles
+ * Built-in presets plus user profiles saved in localStorage, shareable as JSON files
+ */
+
+const STORAGE_KEY = 'paperscraper.profiles';
+const ACTIVE_KEY = 'paperscraper.activeProfile';
+const EXPORT_FORMAT = 'paperscraper-profiles';
+const EXPORT_VERSION = 1;
+
+export interface ProfileExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  profiles: { name: string; config: ProfileConfig }[];
+}
+
+/**
+ * Strip the date range from a full config
+ */
+export const toProfileConfig = (config: ScrapeConfig): ProfileConfig => {
+  const { startDate: _startDate, endDate: _endDate, ...profileConfig } = config;
+  return profileConfig;
+};
+
+export const loadUserProfiles = (): SiteProfile[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Failed to read saved profiles', e);
+    return [];
+  }
+};
+
+export const saveUserProfiles = (profiles: SiteProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(p => !p.builtIn)));
+};
+
+/**
+ * Built-in presets followed by the user's own profiles
+ */
+export const loadProfiles = (): SiteProfile[] => {
+  return [...BUILTIN_PROFILES, ...loadUserProfiles()];
+};
+
+export const loadActiveProfileId = (): string | null => localStorage.getItem(ACTIVE_KEY);
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
+
+export const createProfile = (name: string, config: ProfileConfig): SiteProfile => ({
+  id: uuidv4(),
+  name,
+  config: { ...config },
+});
+
+/**
+ * Pick a name that doesn't collide with existing profiles ("Name (2)", "Name (3)", ...)
+ */
+export const uniqueProfileName = (name: string, profiles: SiteProfile[]): string => {
+  const taken = new Set(profiles.map(p => p.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+export const serializeProfiles = (profiles: SiteProfile[]): string => {
+  const data: ProfileExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    profiles: profiles.map(p => ({ name: p.name, config: p.config })),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+const isProfileConfig = (value: any): value is ProfileConfig => {
+  return !!value
+    && typeof value.baseUrlPattern === 'string'
+    && typeof value.articleLinkSelector === 'string'
+    && typeof value.contentSelector === 'string'
+    && typeof value.titleSelector === 'string';
+};
+
+/**
+ * Parse a profile export file. Also accepts a bare profile or array of profiles.
+ * Imported profiles get fresh ids; missing settings fall back to the default preset.
+ */
+export const parseProfiles = (json: string): SiteProfile[] => {
+  const data = JSON.parse(json);
+
+  let entries: any[];
+  if (data && data.format === EXPORT_FORMAT) {
+    if (data.version > EXPORT_VERSION) {
+      throw new Error(`Unsupported profile file version ${data.version}`);
+    }
+    entries = data.profiles;
+  } else {
+    entries = Array.isArray(data) ? data : [data];
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('No profiles found in file');
+  }
+
+  return entries.map((entry, index) => {
+    if (!entry || !isProfileConfig(entry.config)) {
+      throw new Error(`Profile #${index + 1} is missing required selectors`);
+    }
+    const { startDate: _startDate, endDate: _endDate, ...config } = entry.config;
+    return createProfile(
+      String(entry.name || `Imported profile ${index + 1}`),
+      { ...BUILTIN_PROFILES[0].config, ...config }
+    );
+  });
+};
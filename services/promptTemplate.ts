@@ -0,0 +1,106 @@
+import { Article } from '../types';
+
+/**
+ * User-editable prompt templates
+ * Templates are plain text with {title}, {date}, {page} and {content} placeholders. The cleanup
+ * template is part of the config, so each site profile can carry its own rules.
+ */
+
+export type PromptVariable = 'title' | 'date' | 'page' | 'content';
+
+export type PromptVariables = { [name in PromptVariable]: string };
+
+// The article fields a prompt can use
+export type PromptArticle = Pick<Article, 'title' | 'date' | 'page' | 'pageLabel' | 'section' | 'content'>;
+
+export const PROMPT_VARIABLES: { name: PromptVariable; description: string }[] = [
+  { name: 'title', description: 'Article title' },
+  { name: 'date', description: 'Edition date, YYYY-MM-DD' },
+  { name: 'page', description: 'Page label and section, e.g. 第02版 新闻' },
+  { name: 'content', description: 'Raw article text (one part of it for long articles)' },
+];
+
+const DEFAULT_CLEANUP_RULES = [
+  'Fix broken line breaks and paragraph spacing.',
+  'Remove any "Click here" or "Page X" metadata if it appears in the body.',
+  'Ensure the title is a H1 header.',
+  'Do not summarize; keep the full content.',
+  'Return ONLY the Markdown content.',
+];
+
+// Extra rules go before "Return ONLY", which should stay last
+const cleanupTemplate = (extraRules: string[] = []): string => {
+  const rules = [...DEFAULT_CLEANUP_RULES.slice(0, -1), ...extraRules, DEFAULT_CLEANUP_RULES[DEFAULT_CLEANUP_RULES.length - 1]];
+  return `You are an expert editor. Convert the following raw newspaper text into clean, well-formatted Markdown.
+
+Rules:
+${rules.map((rule, index) => `${index + 1}. ${rule}`).join('\n')}
+
+Title: {title}
+Raw Text:
+{content}`;
+};
+
+export const DEFAULT_CLEANUP_TEMPLATE = cleanupTemplate();
+
+// Starting points for common paper quirks; picking one copies it into the editor
+export const CLEANUP_PROMPT_PRESETS: { id: string; label: string; template: string }[] = [
+  { id: 'default', label: 'Default', template: DEFAULT_CLEANUP_TEMPLATE },
+  {
+    id: 'datelines',
+    label: 'Strip datelines (本报讯)',
+    template: cleanupTemplate([
+      'Remove the dateline at the start of the body, such as "本报讯" or "本报北京10月19日电（记者 张三）"; keep the rest of the first paragraph.',
+    ]),
+  },
+  {
+    id: 'columns',
+    label: 'Keep column headers',
+    template: cleanupTemplate([
+      'Keep column headers such as 【教育时评】 and in-text subheadings; format subheadings as ## headers.',
+    ]),
+  },
+  {
+    id: 'digits',
+    label: 'Full-width digits to ASCII',
+    template: cleanupTemplate([
+      'Convert full-width digits and Latin letters (２０２４, ＧＤＰ) to ASCII (2024, GDP); leave Chinese punctuation as it is.',
+    ]),
+  },
+];
+
+/**
+ * The template in effect for a config value; empty means the default
+ */
+export const cleanupTemplateOrDefault = (template: string | undefined): string => template?.trim() ? template : DEFAULT_CLEANUP_TEMPLATE;
+
+/**
+ * Variables for an article, with content overridden for one part of a long article
+ */
+export const promptVariables = (article: PromptArticle, content: string = article.content): PromptVariables => ({
+  title: article.title,
+  date: article.date,
+  page: [article.pageLabel || article.page, article.section].filter(Boolean).join(' '),
+  content,
+});
+
+/**
+ * Problems with a template, for display next to the editor; empty when it is usable
+ */
+export const promptTemplateProblems = (template: string): string[] => {
+  const problems: string[] = [];
+  if (!template.includes('{content}')) problems.push('No {content} placeholder: the article text will be appended at the end');
+  const known = new Set<string>(PROMPT_VARIABLES.map(({ name }) => name));
+  const unknown = Array.from(new Set(Array.from(template.matchAll(/\{(\w+)\}/g), match => match[1]))).filter(name => !known.has(name));
+  if (unknown.length > 0) problems.push(`Unknown placeholder(s) left as is: ${unknown.map(name => `{${name}}`).join(', ')}`);
+  return problems;
+};
+
+/**
+ * Fill in a template; the article text is appended when the template has no {content}
+ */
+export const renderPromptTemplate = (template: string, variables: PromptVariables): string => {
+  // One pass, so placeholders inside the article text are left alone
+  const rendered = template.replace(/\{(title|date|page|content)\}/g, (_, name: PromptVariable) => variables[name]);
+  return template.includes('{content}') ? rendered : `${rendered}\n\n${variables.content}`;
+};
@@ -0,0 +1,108 @@
+/**
+ * CORS proxy backends
+ * A proxy is described by a template, either prefix style ("https://proxy/?url=") or with a
+ * {url} placeholder ("https://proxy/get?u={url}"). The pool tracks health and fails over in order.
+ */
+
+export interface ProxyHealth {
+  template: string;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastLatencyMs?: number;
+  disabledUntil?: number; // Timestamp until which the proxy is skipped
+}
+
+/**
+ * Build the proxied URL for a target
+ * Prefix style passes the URL unencoded (what allorigins.win expects); {url} is URL-encoded.
+ */
+export const applyProxyTemplate = (template: string, url: string): string => {
+  if (template.includes('{url}')) {
+    return template.replace('{url}', encodeURIComponent(url));
+  }
+  return `${template}${url}`;
+};
+
+export class ProxyPool {
+  private health: ProxyHealth[];
+
+  constructor(
+    templates: string[],
+    private failureThreshold: number = 2, // Consecutive failures before a proxy is benched
+    private cooldownMs: number = 5 * 60 * 1000,
+    private onEvent?: (message: string) => void
+  ) {
+    this.health = templates
+      .map(t => t.trim())
+      .filter(t => t.length > 0)
+      .map(template => ({ template, successes: 0, failures: 0, consecutiveFailures: 0 }));
+  }
+
+  get size(): number {
+    return this.health.length;
+  }
+
+  /**
+   * Proxies in the order they should be tried: healthy ones first (in configured order),
+   * then benched ones as a last resort
+   */
+  candidates(): ProxyHealth[] {
+    const now = Date.now();
+    const healthy = this.health.filter(h => !h.disabledUntil || h.disabledUntil <= now);
+    const benched = this.health.filter(h => h.disabledUntil && h.disabledUntil > now);
+    return [...healthy, ...benched];
+  }
+
+  markSuccess(template: string, latencyMs: number) {
+    const entry = this.health.find(h => h.template === template);
+    if (!entry) return;
+    entry.successes++;
+    entry.consecutiveFailures = 0;
+    entry.disabledUntil = undefined;
+    entry.lastLatencyMs = latencyMs;
+  }
+
+  markFailure(template: string, error: string) {
+    const entry = this.health.find(h => h.template === template);
+    if (!entry) return;
+    entry.failures++;
+    entry.consecutiveFailures++;
+    entry.lastError = error;
+    if (entry.consecutiveFailures >= this.failureThreshold) {
+      entry.disabledUntil = Date.now() + this.cooldownMs;
+      this.onEvent?.(`🚧 Proxy benched for ${Math.round(this.cooldownMs / 60000)}min after ${entry.consecutiveFailures} failures: ${template}`);
+    }
+  }
+
+  /**
+   * Run a request through the proxies, failing over to the next one on error
+   */
+  async request<T>(url: string, send: (proxiedUrl: string) => Promise<T>): Promise<T> {
+    const candidates = this.candidates();
+    if (candidates.length === 0) throw new Error('No proxies configured');
+
+    let lastError: any;
+    for (let i = 0; i < candidates.length; i++) {
+      const { template } = candidates[i];
+      const started = Date.now();
+      try {
+        const result = await send(applyProxyTemplate(template, url));
+        this.markSuccess(template, Date.now() - started);
+        return result;
+      } catch (error: any) {
+        lastError = error;
+        this.markFailure(template, error.message);
+        if (i < candidates.length - 1) {
+          this.onEvent?.(`🔀 Proxy failed (${error.message}), switching to ${candidates[i + 1].template}`);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  getHealth(): ProxyHealth[] {
+    return this.health.map(h => ({ ...h }));
+  }
+}
@@ -0,0 +1,159 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { DOMParser } from 'linkedom';
+import { DEFAULT_CONFIG } from '../constants';
+import { ScrapeConfig, ScrapeJob } from '../types';
+import { ScrapeEngine, ScrapeEngineEvents, createJob } from './scrapeEngine';
+
+// Founder pages of one edition (2024-03-01), served by a mocked fetch
+const FIXTURES = new URL('./__fixtures__/founder/', import.meta.url);
+const EDITION = 'http://paper.example.cn/html/2024-03/01/';
+
+const config: ScrapeConfig = {
+  ...DEFAULT_CONFIG,
+  baseUrlPattern: 'http://paper.example.cn/html/{YYYY}-{MM}/{DD}/node_{PAGE}.htm',
+  startDate: '2024-03-01',
+  endDate: '2024-03-01',
+  useProxy: false,
+  enableRateLimiting: false,
+  duplicateHandling: 'off',
+  maxRetries: 1,
+};
+
+const parseHtml = (html: string): Document => {
+  return new DOMParser().parseFromString(html, 'text/html') as unknown as Document;
+};
+
+// Serves the fixtures under EDITION and 404s everything else; failing URLs always return 500
+const mockFetch = (requested: string[], failing: string[] = []): typeof fetch => {
+  return async (input) => {
+    const url = String(input);
+    requested.push(url);
+    if (failing.includes(url)) return new Response('', { status: 500 });
+    if (!url.startsWith(EDITION)) return new Response('', { status: 404 });
+    try {
+      const body = readFileSync(new URL(url.slice(EDITION.length), FIXTURES));
+      return new Response(body, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+    } catch {
+      return new Response('', { status: 404 });
+    }
+  };
+};
+
+type RecordedEvent = { [K in keyof ScrapeEngineEvents]: { event: K; payload: ScrapeEngineEvents[K] } }[keyof ScrapeEngineEvents];
+
+// Engine with no delays, recording every event except log lines
+const createEngine = (job: ScrapeJob, fetchImpl: typeof fetch, checkpoint?: (job: ScrapeJob) => Promise<void>) => {
+  const engine = new ScrapeEngine(job, { fetch: fetchImpl, parseHtml, sleep: async () => {}, checkpoint });
+  const events: RecordedEvent[] = [];
+  const names: (keyof ScrapeEngineEvents)[] = [
+    'dateStarted', 'pageDiscovered', 'articleExtracted', 'articleFailed', 'dateCompleted', 'completed',
+  ];
+  names.forEach(event => engine.on(event, (payload) => events.push({ event, payload } as RecordedEvent)));
+  return { engine, events };
+};
+
+const payloads = <K extends keyof ScrapeEngineEvents>(events: RecordedEvent[], event: K): ScrapeEngineEvents[K][] => {
+  return events.filter(e => e.event === event).map(e => e.payload as ScrapeEngineEvents[K]);
+};
+
+describe('ScrapeEngine', () => {
+  it('crawls an edition page by page and reports each step', async () => {
+    const requested: string[] = [];
+    const job = createJob('job-1', config, ['2024-03-01']);
+    const { engine, events } = createEngine(job, mockFetch(requested));
+
+    await engine.run();
+
+    expect(payloads(events, 'dateStarted')).toEqual([{ date: '2024-03-01', index: 0, total: 1 }]);
+    expect(payloads(events, 'pageDiscovered')).toEqual([
+      { date: '2024-03-01', pageIndex: 0, url: `${EDITION}node_1.htm`, articleCount: 2 },
+      { date: '2024-03-01', pageIndex: 1, url: `${EDITION}node_2.htm`, articleCount: 1 },
+    ]);
+
+    const articles = payloads(events, 'articleExtracted').map(e => e.article);
+    expect(articles.map(a => [a.page, a.title])).toEqual([
+      ['01', '新华社北京3月1日电 全国两会今日开幕'],
+      ['01', '教育强国建设规划纲要发布'],
+      ['02', '乡村学校迎来新学期'],
+    ]);
+    expect(articles[0]).toMatchObject({ pageLabel: '第01版', section: '要闻', url: `${EDITION}content_101.htm`, encoding: 'utf-8' });
+    expect(articles[0].content).toContain('第十四届全国人民代表大会第二次会议');
+
+    expect(payloads(events, 'articleFailed')).toEqual([]);
+    expect(payloads(events, 'completed')).toEqual([{ job, reason: 'finished', failedDates: [], error: undefined }]);
+    expect(job.status).toBe('completed');
+    expect(job.completedDates).toEqual(['2024-03-01']);
+    // The entry page is node 1, fetched again for its article links
+    expect(requested.filter(url => url.endsWith('node_1.htm'))).toHaveLength(2);
+  });
+
+  it('reports an article that keeps failing and leaves it for the next run', async () => {
+    const failing = `${EDITION}content_102.htm`;
+    const requested: string[] = [];
+    const job = createJob('job-2', config, ['2024-03-01']);
+    const { engine, events } = createEngine(job, mockFetch(requested, [failing]));
+
+    await engine.run();
+
+    expect(payloads(events, 'articleFailed')).toEqual([{ date: '2024-03-01', url: failing, error: 'HTTP error! status: 500' }]);
+    expect(requested.filter(url => url === failing)).toHaveLength(2); // First attempt + maxRetries
+    expect(payloads(events, 'articleExtracted')).toHaveLength(2);
+    expect(job.completedUrls).not.toContain(failing);
+  });
+
+  it('ends incomplete when a date can\'t be fetched, so the job stays resumable', async () => {
+    const job = createJob('job-3', { ...config, endDate: '2024-03-02' }, ['2024-03-01', '2024-03-02']);
+    const { engine, events } = createEngine(job, mockFetch([]));
+
+    await engine.run();
+
+    expect(payloads(events, 'dateStarted').map(e => e.date)).toEqual(['2024-03-01', '2024-03-02']);
+    const [completed] = payloads(events, 'completed');
+    expect(completed.reason).toBe('incomplete');
+    expect(completed.failedDates).toEqual(['2024-03-02']);
+    expect(job.status).toBe('paused');
+    expect(job.completedDates).toEqual(['2024-03-01']);
+  });
+
+  it('logs an invalid page scan selector and still finds the other link', async () => {
+    const job = createJob('job-5', { ...config, downloadPageScans: true, pageImageSelector: 'img[usemap' }, ['2024-03-01']);
+    const { engine } = createEngine(job, mockFetch([]));
+    const warnings: string[] = [];
+    engine.on('log', ({ message, type }) => { if (type === 'warning') warnings.push(message); });
+
+    await engine.run();
+
+    expect(warnings.filter(message => message.includes('Invalid selector "img[usemap"'))).toHaveLength(2); // Once per page
+    expect(job.pageScans?.[`${EDITION}node_1.htm`]).toMatchObject({
+      page: '01',
+      imageUrl: undefined,
+      pdfUrl: 'http://paper.example.cn/page/1/2024-03/01/01/2024030101_pdf.pdf',
+    });
+  });
+
+  it('resumes a stopped job from its checkpoint without fetching finished articles again', async () => {
+    let saved = '';
+    const checkpoint = async (current: ScrapeJob) => { saved = JSON.stringify(current); };
+
+    const first = createEngine(createJob('job-4', config, ['2024-03-01']), mockFetch([]), checkpoint);
+    first.engine.on('articleExtracted', () => first.engine.stop());
+    await first.engine.run();
+
+    expect(payloads(first.events, 'completed')[0].reason).toBe('aborted');
+    const checkpointed: ScrapeJob = JSON.parse(saved);
+    expect(checkpointed.status).toBe('paused');
+    expect(checkpointed.completedUrls).toEqual([`${EDITION}content_101.htm`]);
+    expect(checkpointed.completedDates).toEqual([]);
+
+    const requested: string[] = [];
+    const second = createEngine(checkpointed, mockFetch(requested), checkpoint);
+    await second.engine.run();
+
+    // Page nodes and page 1's links come from the checkpoint; page 2 wasn't scanned before the stop
+    expect(requested).toEqual([`${EDITION}content_102.htm`, `${EDITION}node_2.htm`, `${EDITION}content_201.htm`]);
+    expect(payloads(second.events, 'completed')[0].reason).toBe('finished');
+    expect(checkpointed.articles.map(a => a.url.split('/').pop())).toEqual(['content_101.htm', 'content_102.htm', 'content_201.htm']);
+    expect(checkpointed.status).toBe('completed');
+  });
+});
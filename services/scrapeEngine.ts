@@ -0,0 +1,807 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Article, DuplicateMatch, EditionPage, LogEntry, PageScan, ScrapeConfig, ScrapeJob } from '../types';
+import { formatUrl, fetchPage, fetchAsset, FetchedPage, FetchOptions, extractArticleLinks, parseArticleContent, extractPageNavEntries, extractPageScanLinks, HtmlParser } from './scraperService';
+import { RateLimiter } from './antibot';
+import { HostPool } from './hostPool';
+import { ProxyPool, ProxyHealth } from './proxyService';
+import { assetExtension, assetFileName, renderArticleMarkdown } from './exportService';
+import { mergeContinuations } from './continuations';
+import { FingerprintIndex, FingerprintStore, createFingerprint } from './fingerprint';
+
+/**
+ * Headless scrape engine
+ * Runs the date -> page node -> article crawl for a ScrapeJob and reports progress through typed events,
+ * so the React UI, a Node runner or a test can all drive the same crawl.
+ */
+
+export interface ScrapeEngineEvents {
+  log: { message: string; type: LogEntry['type'] };
+  dateStarted: { date: string; index: number; total: number };
+  pageDiscovered: { date: string; pageIndex: number; url: string; articleCount: number };
+  pageScanned: { scan: PageScan };
+  continuationsMerged: { date: string; articles: Article[] }; // The date's articles after merging
+  duplicateFound: { url: string; title: string; match: DuplicateMatch; skipped: boolean };
+  articleExtracted: { article: Article };
+  articleFailed: { date: string; url: string; error: string };
+  cooldownStarted: { minutes: number; until: Date };
+  dateCompleted: { date: string; completed: number; total: number };
+  completed: { job: ScrapeJob; reason: ScrapeEndReason; failedDates: string[]; error?: string };
+}
+
+// incomplete: the queue ran to the end but some dates couldn't be fetched; resuming retries them
+export type ScrapeEndReason = 'finished' | 'incomplete' | 'aborted' | 'dailyLimit' | 'error';
+
+type Listener<K extends keyof ScrapeEngineEvents> = (payload: ScrapeEngineEvents[K]) => void;
+
+export interface ScrapeEngineOptions {
+  fetch?: typeof fetch; // Transport used for every request (defaults to the global fetch)
+  parseHtml?: HtmlParser; // HTML -> Document (defaults to DOMParser)
+  sleep?: (ms: number) => Promise<void>; // Used for all delays and cooldowns
+  checkpoint?: (job: ScrapeJob) => Promise<void>; // Persist progress after every step
+  unrestrictedHeaders?: boolean; // Set when running outside the browser (see fetchUrl)
+  saveAsset?: (asset: EngineAsset) => Promise<void>; // Store downloaded images/PDFs (required for downloads)
+  fingerprints?: FingerprintStore; // Articles seen in earlier runs (required for deduplication)
+}
+
+export interface EngineAsset {
+  url: string; // Source URL
+  date: string; // Edition the asset belongs to
+  file: string; // Path relative to the date folder, e.g. images/img_1a2b3c4d.jpg or pages/01.pdf
+  data: Uint8Array;
+  contentType: string;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Create a fresh job for the given configuration and date queue
+ */
+export const createJob = (id: string, config: ScrapeConfig, dates: string[]): ScrapeJob => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    // Snapshot so later edits in the config panel don't change a running/paused job
+    config: { ...config },
+    dates,
+    completedDates: [],
+    pageNodes: {},
+    pageArticles: {},
+    pageScans: {},
+    pageLabels: {},
+    completedUrls: [],
+    articles: [],
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Layout pages a job has discovered so far, with their labels from the page navigation
+ */
+export const jobPages = (job: ScrapeJob): EditionPage[] => {
+  return Object.keys(job.pageNodes).sort().flatMap(date => job.pageNodes[date].map((nodeUrl, i) => ({
+    date,
+    page: (i + 1).toString().padStart(2, '0'),
+    nodeUrl,
+    ...job.pageLabels?.[nodeUrl],
+  })));
+};
+
+/**
+ * Edition order: date, then page, then position on the page
+ */
+export const compareArticles = (a: Article, b: Article): number => {
+  return a.date.localeCompare(b.date)
+    || a.page.localeCompare(b.page)
+    || (a.order ?? 0) - (b.order ?? 0);
+};
+
+/**
+ * Insert an article into an edition-ordered list (returns a new array)
+ */
+export const insertInOrder = (articles: Article[], article: Article): Article[] => {
+  const next = [...articles];
+  let index = next.length;
+  while (index > 0 && compareArticles(next[index - 1], article) > 0) index--;
+  next.splice(index, 0, article);
+  return next;
+};
+
+export class ScrapeEngine {
+  private listeners: { [K in keyof ScrapeEngineEvents]?: Set<Listener<K>> } = {};
+  private abortController = new AbortController();
+  private rateLimiter: RateLimiter | null = null;
+  private hostPool: HostPool | null = null;
+  private proxyPool: ProxyPool | null = null;
+  private fingerprintIndex: FingerprintIndex | null = null;
+  private sleep: (ms: number) => Promise<void>;
+  private checkpointChain: Promise<void> = Promise.resolve();
+
+  // Shared by all workers
+  private completedUrls = new Set<string>();
+  private claimedUrls = new Set<string>(); // Article URLs currently being fetched
+  private pendingArticles = 0; // Fetches counted against the daily limit before they finish
+  private dailyLimitHit = false;
+  private failedDates = new Set<string>(); // Dates whose entry page couldn't be fetched in this run
+
+  constructor(readonly job: ScrapeJob, private options: ScrapeEngineOptions = {}) {
+    this.sleep = options.sleep || defaultSleep;
+  }
+
+  /**
+   * Subscribe to an engine event. Returns an unsubscribe function.
+   */
+  on<K extends keyof ScrapeEngineEvents>(event: K, listener: Listener<K>): () => void {
+    // Narrowed to the one key so the set can be stored without a cast
+    const listeners: { [P in K]?: Set<Listener<P>> } = this.listeners;
+    const set = listeners[event] ?? new Set<Listener<K>>();
+    set.add(listener);
+    listeners[event] = set;
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  private emit<K extends keyof ScrapeEngineEvents>(event: K, payload: ScrapeEngineEvents[K]) {
+    this.listeners[event]?.forEach((listener) => listener(payload));
+  }
+
+  private log(message: string, type: LogEntry['type'] = 'info') {
+    this.emit('log', { message, type });
+  }
+
+  /**
+   * Request the crawl to stop after the current request
+   */
+  stop() {
+    this.abortController.abort();
+  }
+
+  /**
+   * Health of the configured proxies for this run
+   */
+  get proxyHealth(): ProxyHealth[] {
+    return this.proxyPool ? this.proxyPool.getHealth() : [];
+  }
+
+  get aborted(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  private get config(): ScrapeConfig {
+    return this.job.config;
+  }
+
+  private get concurrent(): boolean {
+    return !!this.config.enableConcurrency;
+  }
+
+  private get stopped(): boolean {
+    return this.aborted || this.dailyLimitHit;
+  }
+
+  // Persist progress after every step; a failed write shouldn't kill the crawl.
+  // Writes are serialized so concurrent workers never interleave them.
+  private checkpoint(): Promise<void> {
+    const save = this.options.checkpoint;
+    if (!save) return Promise.resolve();
+    this.checkpointChain = this.checkpointChain.then(async () => {
+      try {
+        await save(this.job);
+      } catch (err: any) {
+        this.log(`⚠️ Failed to save job checkpoint: ${err.message}`, 'warning');
+      }
+    });
+    return this.checkpointChain;
+  }
+
+  // Random delay to avoid detection as bot
+  // In concurrent mode the host pool's spacing paces requests instead
+  private randomDelay(min?: number, max?: number) {
+    if (this.concurrent) return Promise.resolve();
+
+    const minMs = min || this.config.minDelay || 2000;
+    const maxMs = max || this.config.maxDelay || 6000;
+    const randomMs = Math.floor(Math.random() * (maxMs - minMs + 1)) + minMs;
+    this.log(`⏱️ Waiting ${(randomMs / 1000).toFixed(1)}s...`, 'info');
+    return this.sleep(randomMs);
+  }
+
+  private fetchOptions(): FetchOptions {
+    const cfg = this.config;
+    return {
+      useProxy: cfg.useProxy,
+      randomizeUserAgent: cfg.enableRandomUserAgent,
+      randomizeHeaders: cfg.randomizeHeaders,
+      fetchImpl: this.options.fetch,
+      parseHtml: this.options.parseHtml,
+      unrestrictedHeaders: this.options.unrestrictedHeaders,
+      proxyPool: this.proxyPool || undefined,
+      charsetOverride: cfg.charsetOverride,
+    };
+  }
+
+  // Retry mechanism shared by page and asset fetches
+  private async withRetry<T>(url: string, request: () => Promise<T>, retries = 0): Promise<T> {
+    const cfg = this.config;
+    const maxRetries = cfg.maxRetries || 3;
+
+    try {
+      // Retry waits happen outside the pool, so they don't hold a host slot
+      return await (this.hostPool ? this.hostPool.run(url, request) : request());
+    } catch (error: any) {
+      if (retries < maxRetries) {
+        const retryNum = retries + 1;
+        this.log(`❌ Fetch failed (attempt ${retryNum}/${maxRetries + 1}): ${error.message}`, 'warning');
+        this.log(`⏳ Waiting ${cfg.retryDelay || 10000}ms before retry...`, 'warning');
+        await this.sleep(cfg.retryDelay || 10000);
+        return this.withRetry(url, request, retryNum);
+      } else {
+        this.log(`❌ Fetch failed after ${maxRetries + 1} attempts: ${url}`, 'error');
+        throw error;
+      }
+    }
+  }
+
+  // Fetch with retry mechanism
+  private fetchWithRetry(url: string): Promise<FetchedPage> {
+    return this.withRetry(url, () => fetchPage(url, this.fetchOptions()));
+  }
+
+  /**
+   * Download a binary (image, PDF) and hand it to the asset sink
+   * fileFor names the file from the response Content-Type.
+   * Returns the file name it was stored under, or undefined on failure
+   */
+  private async downloadAsset(url: string, date: string, fileFor: (contentType: string) => string): Promise<string | undefined> {
+    const saveAsset = this.options.saveAsset;
+    if (!saveAsset) return undefined;
+
+    try {
+      await this.randomDelay();
+      const { data, contentType } = await this.withRetry(url, () => fetchAsset(url, this.fetchOptions()));
+      const file = fileFor(contentType);
+      await saveAsset({ url, date, file, data, contentType });
+      return file;
+    } catch (err: any) {
+      this.log(`⚠️ Failed to download ${url.split('/').pop()}: ${err.message}`, 'warning');
+      return undefined;
+    }
+  }
+
+  private finish(reason: ScrapeEndReason, error?: string): ScrapeJob {
+    if (this.proxyPool && this.proxyPool.size > 1) {
+      this.proxyPool.getHealth().forEach(h => {
+        this.log(`Proxy ${h.template}: ${h.successes} ok, ${h.failures} failed${h.lastError ? ` (last error: ${h.lastError})` : ''}`, 'info');
+      });
+    }
+    this.emit('completed', { job: this.job, reason, failedDates: [...this.failedDates].sort(), error });
+    return this.job;
+  }
+
+  /**
+   * Run (or resume) the job until it finishes, is stopped or hits the daily limit
+   */
+  async run(): Promise<ScrapeJob> {
+    const job = this.job;
+    const cfg = this.config;
+    job.status = 'running';
+    this.failedDates.clear();
+
+    // Initialize Rate Limiter if enabled
+    if (cfg.enableRateLimiting) {
+      this.rateLimiter = new RateLimiter(
+        cfg.batchSize || 3,
+        cfg.cooldownMinutes || 15,
+        cfg.dailyArticleLimit || 0
+      );
+      this.log(`🛡️ Rate limiting enabled: ${cfg.batchSize} dates per batch, ${cfg.cooldownMinutes}min cooldown`, 'info');
+    } else {
+      this.rateLimiter = null;
+    }
+
+    if (cfg.useProxy && cfg.proxyTemplates && cfg.proxyTemplates.length > 0) {
+      this.proxyPool = new ProxyPool(cfg.proxyTemplates, 2, 5 * 60 * 1000, (message) => this.log(message, 'warning'));
+      if (this.proxyPool.size > 1) {
+        this.log(`🔁 ${this.proxyPool.size} proxies configured, failing over in order`, 'info');
+      }
+    } else {
+      this.proxyPool = null;
+    }
+
+    if (this.concurrent) {
+      const maxInFlight = cfg.maxConcurrentPerHost || 2;
+      const spacing = cfg.minHostSpacingMs ?? 1500;
+      this.hostPool = new HostPool(maxInFlight, spacing, this.sleep);
+      this.log(`⚡ Concurrency enabled: ${maxInFlight} requests per host, ${spacing}ms spacing`, 'info');
+    } else {
+      this.hostPool = null;
+    }
+
+    try {
+      await this.loadFingerprints();
+
+      const completedDates = new Set(job.completedDates);
+      this.completedUrls = new Set(job.completedUrls);
+
+      this.log(`Queue: ${job.dates.length} days (${cfg.startDate} to ${cfg.endDate})`);
+      if (completedDates.size > 0 || job.completedUrls.length > 0) {
+        this.log(`♻️ Resuming job: ${completedDates.size}/${job.dates.length} days done, ${job.articles.length} articles collected`, 'info');
+      }
+      await this.checkpoint();
+
+      // Sequential mode handles one date at a time. Concurrent mode runs a whole
+      // rate-limit batch of dates in parallel and cools down between batches.
+      const remaining = job.dates.filter(date => !completedDates.has(date));
+      const groupSize = !this.concurrent ? 1 : (this.rateLimiter ? cfg.batchSize || 3 : remaining.length);
+
+      for (let g = 0; g < remaining.length; g += groupSize) {
+        if (this.stopped) break;
+
+        await this.cooldownIfNeeded();
+
+        const group = remaining.slice(g, g + groupSize);
+        await Promise.all(group.map(date => this.processDate(date)));
+      }
+
+      if (this.dailyLimitHit) {
+        job.status = 'paused';
+        await this.checkpoint();
+        return this.finish('dailyLimit');
+      }
+
+      if (this.aborted) {
+        job.status = 'paused';
+        await this.checkpoint();
+        return this.finish('aborted');
+      }
+
+      // Left unfinished so the job stays resumable
+      if (this.failedDates.size > 0) {
+        job.status = 'paused';
+        await this.checkpoint();
+        this.log(`⚠️ ${this.failedDates.size} date(s) couldn't be fetched: ${[...this.failedDates].sort().join(', ')}. Resume the job to retry them.`, 'warning');
+        return this.finish('incomplete');
+      }
+
+      job.status = 'completed';
+      await this.checkpoint();
+      this.log('Job completed!', 'success');
+      return this.finish('finished');
+
+    } catch (err: any) {
+      this.log(`Global Error: ${err.message}`, 'error');
+      job.status = 'failed';
+      await this.checkpoint();
+      return this.finish('error', err.message);
+    }
+  }
+
+  private async loadFingerprints() {
+    const store = this.options.fingerprints;
+    if (!store || !this.config.duplicateHandling || this.config.duplicateHandling === 'off') {
+      this.fingerprintIndex = null;
+      return;
+    }
+    try {
+      this.fingerprintIndex = new FingerprintIndex(await store.load());
+      this.log(`🧬 Duplicate check against ${this.fingerprintIndex.size} known articles (${this.config.duplicateHandling})`, 'info');
+    } catch (err: any) {
+      this.fingerprintIndex = null;
+      this.log(`⚠️ Failed to load article fingerprints, duplicate check disabled: ${err.message}`, 'warning');
+    }
+  }
+
+  /**
+   * Compare a freshly extracted article with everything seen before
+   * Returns the article (flagged if it's a duplicate) or null when it should be dropped
+   */
+  private async checkDuplicate(article: Article): Promise<Article | null> {
+    const index = this.fingerprintIndex;
+    const store = this.options.fingerprints;
+    if (!index || !store) return article;
+
+    const fingerprint = createFingerprint(article, this.job.id);
+    const match = index.findDuplicate(fingerprint);
+    const skip = !!match && this.config.duplicateHandling === 'skip';
+
+    if (match) {
+      this.log(`♊ ${skip ? 'Skipping' : 'Flagged'} duplicate "${article.title}" (${match.reason} match with "${match.title}", ${match.date})`, 'warning');
+      this.emit('duplicateFound', { url: article.url, title: article.title, match, skipped: skip });
+    }
+
+    if (!index.has(fingerprint.urlKey)) {
+      index.add(fingerprint);
+      try {
+        await store.save(fingerprint);
+      } catch (err: any) {
+        this.log(`⚠️ Failed to save article fingerprint: ${err.message}`, 'warning');
+      }
+    }
+
+    if (skip) return null;
+    return match ? { ...article, duplicateOf: match } : article;
+  }
+
+  // Check batch limit (rate limiting)
+  private async cooldownIfNeeded() {
+    if (!this.rateLimiter) return;
+
+    const batchCheck = this.rateLimiter.checkBatchLimit();
+    if (batchCheck.shouldCooldown) {
+      const cooldownMs = (batchCheck.waitMinutes || 0) * 60 * 1000;
+      this.log(`🔒 Batch limit reached. Cooling down for ${batchCheck.waitMinutes} minutes...`, 'warning');
+      this.log(`⏰ Cooldown started at ${new Date().toLocaleTimeString()}`, 'info');
+      this.emit('cooldownStarted', { minutes: batchCheck.waitMinutes || 0, until: new Date(Date.now() + cooldownMs) });
+
+      // Wait for cooldown period
+      await this.sleep(cooldownMs);
+
+      this.log(`✅ Cooldown complete. Resuming at ${new Date().toLocaleTimeString()}`, 'success');
+    }
+  }
+
+  private async processDate(date: string) {
+    const job = this.job;
+
+    this.log(`=== Processing Date: ${date} ===`, 'info');
+    this.emit('dateStarted', { date, index: job.dates.indexOf(date), total: job.dates.length });
+
+    const succeeded = await this.scrapeDate(date);
+
+    // In concurrent mode every attempted date counts towards the batch, so cooldowns line up with batches
+    if (this.rateLimiter && this.concurrent) {
+      this.rateLimiter.markDateProcessed();
+    }
+
+    // A date interrupted by stop() or the daily limit is picked up again on resume
+    if (this.stopped) return;
+    if (!succeeded) {
+      this.failedDates.add(date);
+      return;
+    }
+
+    if (this.config.mergeContinuations) this.mergeDateContinuations(date);
+
+    job.completedDates.push(date);
+    await this.checkpoint();
+    this.emit('dateCompleted', { date, completed: job.completedDates.length, total: job.dates.length });
+
+    // Mark date as processed for batch rate limiting
+    if (this.rateLimiter && !this.concurrent) {
+      this.rateLimiter.markDateProcessed();
+    }
+  }
+
+  /**
+   * Join stories continued across this date's pages (转第X版 / 上接第X版)
+   */
+  private mergeDateContinuations(date: string) {
+    const job = this.job;
+    const dateArticles = job.articles.filter(a => a.date === date);
+    const merged = mergeContinuations(dateArticles);
+    if (merged.length === dateArticles.length) return;
+
+    job.articles = [...job.articles.filter(a => a.date !== date), ...merged].sort(compareArticles);
+    this.log(`🔗 Merged ${dateArticles.length - merged.length} continued fragment(s) for ${date}`, 'info');
+    this.emit('continuationsMerged', { date, articles: merged });
+  }
+
+  /**
+   * Discover the page nodes of one date
+   * Returns null when the entry page can't be fetched
+   */
+  private async discoverPageNodes(date: string): Promise<string[] | null> {
+    const job = this.job;
+    const cfg = this.config;
+
+    const saved = job.pageNodes[date];
+    if (saved) {
+      this.log(`Using ${saved.length} saved page nodes for ${date}.`);
+      return saved;
+    }
+
+    // 1. Fetch the entry page (usually Node 1)
+    const entryUrl = formatUrl(cfg.baseUrlPattern, date, 1);
+    this.log(`Fetching Entry Page: ${entryUrl}`);
+
+    let pageNodes: string[];
+    try {
+      const { doc: entryDoc } = await this.fetchWithRetry(entryUrl);
+
+      // 2. Discover all page links (node_*.htm) from the entry page
+      // This grabs the sidebar links "Page 01, Page 02, Page 03..."
+      const discoveredNodes = extractPageNavEntries(entryDoc, entryUrl, cfg.pageLinkSelector || 'a[href^="node_"]');
+
+      if (discoveredNodes.length > 0) {
+        pageNodes = discoveredNodes.map(node => node.url);
+        // Page labels and section names ("第02版：新闻") for the articles of each page
+        const pageLabels = { ...job.pageLabels };
+        discoveredNodes.forEach(node => {
+          if (node.label) pageLabels[node.url] = node.label;
+        });
+        job.pageLabels = pageLabels;
+        this.log(`Found ${pageNodes.length} pages in edition.`);
+      } else {
+        // Fallback: If no nav links found, maybe it's just a single page or selector failed
+        this.log(`No page navigation links found. Trying just the entry page.`, 'warning');
+        pageNodes = [entryUrl];
+      }
+
+      job.pageNodes[date] = pageNodes;
+      await this.checkpoint();
+    } catch (err: any) {
+      // Not marked as completed, so resuming the job retries this date
+      this.log(`Failed to fetch entry page for ${date}: ${err.message}`, 'error');
+      return null;
+    }
+
+    // Random delay after fetching entry page
+    await this.randomDelay();
+    return pageNodes;
+  }
+
+  /**
+   * Scrape every page of one date. Returns false when the date couldn't be started.
+   */
+  private async scrapeDate(date: string): Promise<boolean> {
+    const pageNodes = await this.discoverPageNodes(date);
+    if (!pageNodes) return false;
+
+    // 3. Iterate through all discovered pages (nodes)
+    // We limit by maxPages just in case the selector grabbed too many junk links
+    const nodesToScan = pageNodes.slice(0, this.config.maxPages);
+
+    if (this.concurrent) {
+      await Promise.all(nodesToScan.map((nodeUrl, i) => this.scrapePage(date, i, nodesToScan.length, nodeUrl)));
+      return true;
+    }
+
+    for (let i = 0; i < nodesToScan.length; i++) {
+      if (this.stopped) break;
+      await this.scrapePage(date, i, nodesToScan.length, nodesToScan[i]);
+    }
+    return true;
+  }
+
+  private async scrapePage(date: string, i: number, pageCount: number, nodeUrl: string) {
+    const job = this.job;
+    const cfg = this.config;
+
+    // Only wait between pages if this page actually hit the network
+    let fetchedOnPage = false;
+
+    this.log(`Scanning Page ${i + 1}/${pageCount}: ${nodeUrl.split('/').pop()}`);
+
+    try {
+      let articleLinks = job.pageArticles[nodeUrl];
+      let nodeDoc: Document | null = null;
+
+      if (!articleLinks) {
+        // We might have already fetched entry page, but fetching again is simpler logic
+        // unless we cache. Given the delay, it's fine.
+        nodeDoc = (await this.fetchWithRetry(nodeUrl)).doc;
+        fetchedOnPage = true;
+
+        // Get list of articles ({url, title})
+        articleLinks = extractArticleLinks(nodeDoc, nodeUrl, cfg.articleLinkSelector);
+        job.pageArticles[nodeUrl] = articleLinks;
+        await this.checkpoint();
+      }
+
+      // Page scans first, so the page's articles can link to them
+      if (cfg.downloadPageScans && !job.pageScans?.[nodeUrl] && !this.stopped) {
+        if (!nodeDoc) {
+          nodeDoc = (await this.fetchWithRetry(nodeUrl)).doc;
+          fetchedOnPage = true;
+        }
+        await this.capturePageScan(date, i, nodeUrl, nodeDoc);
+      }
+
+      this.emit('pageDiscovered', { date, pageIndex: i, url: nodeUrl, articleCount: articleLinks.length });
+
+      if (articleLinks.length === 0) {
+        this.log(`No articles found on ${nodeUrl}`, 'warning');
+        // Add delay even when no articles found
+        if (fetchedOnPage) await this.randomDelay();
+        return;
+      }
+
+      this.log(`Found ${articleLinks.length} articles on this page.`);
+
+      const links = articleLinks;
+      if (this.concurrent) {
+        await Promise.all(links.map((link, j) => this.scrapeLink(date, i, j, link.url, link.title)));
+      } else {
+        for (let j = 0; j < links.length; j++) {
+          if (this.stopped) break;
+          if (await this.scrapeLink(date, i, j, links[j].url, links[j].title)) fetchedOnPage = true;
+        }
+      }
+
+    } catch (err: any) {
+      this.log(`Failed to scan page node ${nodeUrl}: ${err.message}`, 'error');
+    }
+
+    // Extra delay between pages to avoid bot detection
+    if (!this.concurrent && fetchedOnPage && i < pageCount - 1 && !this.stopped) {
+      this.log(`📄 Page ${i + 1} complete. Waiting before next page...`, 'info');
+      await this.sleep(cfg.pageDelay || 5000);
+    }
+  }
+
+  /**
+   * Save the full-page scan and PDF of a layout page as pages/NN.jpg and pages/NN.pdf
+   * Captured once per page node; a failed download keeps the source URL as the link.
+   */
+  private async capturePageScan(date: string, pageIndex: number, nodeUrl: string, nodeDoc: Document) {
+    const job = this.job;
+    const cfg = this.config;
+    const page = (pageIndex + 1).toString().padStart(2, '0');
+
+    const { imageUrl, pdfUrl, errors } = extractPageScanLinks(nodeDoc, nodeUrl, {
+      image: cfg.pageImageSelector,
+      pdf: cfg.pagePdfSelector,
+    });
+    errors.forEach(error => this.log(`⚠️ Page scan: ${error}`, 'warning'));
+    const scan: PageScan = { date, page, nodeUrl, imageUrl, pdfUrl };
+
+    if (!imageUrl && !pdfUrl) {
+      this.log(`No page scan found on ${nodeUrl.split('/').pop()}`, 'warning');
+    }
+    if (imageUrl) {
+      this.log(`🗞️ Saving page ${page} scan...`);
+      scan.imageFile = await this.downloadAsset(imageUrl, date, (type) => `pages/${page}.${assetExtension(imageUrl, type)}`);
+    }
+    if (pdfUrl && !this.aborted) {
+      this.log(`🗞️ Saving page ${page} PDF...`);
+      scan.pdfFile = await this.downloadAsset(pdfUrl, date, (type) => `pages/${page}.${assetExtension(pdfUrl, type)}`);
+    }
+
+    // Interrupted downloads are retried on resume
+    if (this.aborted) return;
+
+    job.pageScans = { ...job.pageScans, [nodeUrl]: scan };
+    await this.checkpoint();
+    this.emit('pageScanned', { scan });
+  }
+
+  /**
+   * Handle one article link. Returns true when it went to the network.
+   */
+  private async scrapeLink(date: string, pageIndex: number, order: number, url: string, linkTitle: string): Promise<boolean> {
+    const job = this.job;
+    const cfg = this.config;
+
+    if (this.stopped) return false;
+
+    // Avoid duplicates (and anything finished before a resume)
+    if (this.completedUrls.has(url) || this.claimedUrls.has(url)) return false;
+
+    // Already extracted by an earlier run: no need to fetch it again
+    const seenBefore = this.fingerprintIndex && cfg.duplicateHandling === 'skip'
+      ? this.fingerprintIndex.findByUrl(url, job.id)
+      : null;
+    if (seenBefore) {
+      this.log(`♊ Skipping ${url.split('/').pop()}, already extracted on ${seenBefore.date}`, 'info');
+      this.emit('duplicateFound', { url, title: linkTitle, match: seenBefore, skipped: true });
+      this.completedUrls.add(url);
+      job.completedUrls.push(url);
+      await this.checkpoint();
+      return false;
+    }
+
+    // Check daily article limit
+    if (this.rateLimiter) {
+      const dailyCheck = this.rateLimiter.checkDailyLimit(this.pendingArticles);
+      if (!dailyCheck.canProceed) {
+        if (!this.dailyLimitHit) {
+          this.log(`🚫 Daily article limit reached (${cfg.dailyArticleLimit}). Stopping.`, 'warning');
+        }
+        this.dailyLimitHit = true;
+        return false;
+      }
+      if (dailyCheck.remaining && dailyCheck.remaining <= 10) {
+        this.log(`⚠️ Approaching daily limit: ${dailyCheck.remaining} articles remaining`, 'warning');
+      }
+    }
+
+    this.claimedUrls.add(url);
+    this.pendingArticles++;
+
+    try {
+      // Random delay between articles to avoid bot detection
+      await this.randomDelay();
+
+      let article = await this.scrapeArticle(date, pageIndex, order, url, linkTitle);
+      if (article === undefined) return true;
+      if (article) article = await this.checkDuplicate(article);
+
+      this.completedUrls.add(url);
+      job.completedUrls.push(url);
+
+      if (article) {
+        job.articles = insertInOrder(job.articles, article);
+        this.emit('articleExtracted', { article });
+
+        // Mark article as processed for rate limiting
+        if (this.rateLimiter) {
+          this.rateLimiter.markArticleProcessed();
+        }
+      }
+      await this.checkpoint();
+      return true;
+    } finally {
+      this.claimedUrls.delete(url);
+      this.pendingArticles--;
+    }
+  }
+
+  /**
+   * Fetch and parse one article
+   * Returns the article, null when it was skipped as empty, or undefined when it failed
+   */
+  private async scrapeArticle(date: string, pageIndex: number, order: number, url: string, linkTitle: string): Promise<Article | null | undefined> {
+    const cfg = this.config;
+
+    try {
+      const { doc: articleDoc, charset } = await this.fetchWithRetry(url);
+
+      // Pass the title we found on the index page as a fallback hint
+      const { title, content, images, meta } = parseArticleContent(
+        articleDoc,
+        {
+          title: cfg.titleSelector,
+          content: cfg.contentSelector
+        },
+        linkTitle, // <--- Fallback Hint
+        url
+      );
+
+      if (!content || content.length < 20) {
+        this.log(`Skipping empty/short content: ${url.split('/').pop()}`, 'warning');
+        return null;
+      }
+
+      if (cfg.downloadImages && images.length > 0) {
+        this.log(`🖼️ Downloading ${images.length} image(s)...`);
+        for (const image of images) {
+          if (this.aborted) break;
+          image.file = await this.downloadAsset(image.url, date, (type) => `images/${assetFileName(image.url, type, 'img')}`);
+        }
+      }
+
+      const pageNum = (pageIndex + 1).toString().padStart(2, '0');
+      const nodeUrl = this.job.pageNodes[date]?.[pageIndex];
+      const pageScan = this.job.pageScans?.[nodeUrl];
+      const pageLabel = this.job.pageLabels?.[nodeUrl];
+
+      const article: Article = {
+        id: uuidv4(),
+        date,
+        page: pageNum,
+        title,
+        content,
+        markdown: '',
+        url,
+        pageLabel: pageLabel?.label,
+        section: pageLabel?.section,
+        ...meta,
+        order,
+        images,
+        pageScan,
+        encoding: charset.encoding,
+        encodingSource: charset.source,
+        scrapedAt: new Date().toISOString(),
+        status: 'success'
+      };
+      article.markdown = renderArticleMarkdown(article);
+      return article;
+    } catch (err: any) {
+      this.log(`Failed to parse article ${url}: ${err.message}`, 'error');
+      this.emit('articleFailed', { date, url, error: err.message });
+      return undefined;
+    }
+  }
+}
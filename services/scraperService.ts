@@ -1,25 +1,62 @@
 import { PROXY_PREFIX } from '../constants';
+import { ArticleImage, ArticleLink, ArticleMeta, PageLabel } from '../types';
 import { getRandomUserAgent, generateRandomHeaders } from './antibot';
+import { ProxyPool } from './proxyService';
+import { CharsetResult, decodeBody } from './charset';
+import { htmlToMarkdown } from './htmlToMarkdown';
+import { extractArticleMeta, parsePageLabel } from './articleMeta';
 
-interface FetchOptions {
+export type HtmlParser = (html: string) => Document;
+
+export interface FetchOptions {
   useProxy: boolean;
   randomizeUserAgent?: boolean;
   randomizeHeaders?: boolean;
+  fetchImpl?: typeof fetch; // Injectable transport (tests, Node runner)
+  parseHtml?: HtmlParser; // Injectable parser for environments without DOMParser
+  unrestrictedHeaders?: boolean; // Outside the browser (Node) every header can be set, incl. User-Agent/Referer
+  proxyPool?: ProxyPool; // Proxy backends with failover (defaults to PROXY_PREFIX alone)
+  charsetOverride?: string; // Force an encoding for sites that declare the wrong one
 }
 
-// Helper to handle potential legacy encoding (GBK/GB2312) common in old Chinese sites
-const fetchUrl = async (url: string, options: FetchOptions): Promise<Document> => {
-  const { useProxy, randomizeUserAgent = false, randomizeHeaders = false } = options;
-  // Note: allorigins.win expects unencoded URL in the query parameter
-  const targetUrl = useProxy ? `${PROXY_PREFIX}${url}` : url;
+const parseWithDomParser: HtmlParser = (html) => new DOMParser().parseFromString(html, 'text/html');
+
+export interface FetchedPage {
+  doc: Document;
+  charset: CharsetResult; // Which encoding the body was decoded with, and why
+}
+
+export interface FetchedAsset {
+  data: Uint8Array;
+  contentType: string;
+}
+
+// Send the request directly or through the proxies, with the configured headers
+const fetchResponse = async (url: string, options: FetchOptions): Promise<Response> => {
+  const {
+    useProxy,
+    randomizeUserAgent = false,
+    randomizeHeaders = false,
+    fetchImpl = fetch,
+    unrestrictedHeaders = false,
+    proxyPool,
+  } = options;
 
   // Build request headers
-  const headers: HeadersInit = {};
+  const headers: Record<string, string> = {};
 
   // IMPORTANT: When using CORS proxy, custom headers are sent to the proxy server, not the target site
   // Also, browsers forbid setting User-Agent, Referer, DNT, Connection headers - they will be ignored
   // So we only apply custom headers when NOT using proxy and only use browser-allowed headers
-  if (!useProxy) {
+  if (!useProxy && unrestrictedHeaders) {
+    // No browser restrictions: send the full rotated header set
+    if (randomizeHeaders) {
+      Object.assign(headers, generateRandomHeaders(url));
+    }
+    if (randomizeUserAgent) {
+      headers['User-Agent'] = getRandomUserAgent();
+    }
+  } else if (!useProxy) {
     // Add randomized headers if enabled (only Accept and Accept-Language are safe in browser)
     if (randomizeHeaders) {
       const randomHeaders = generateRandomHeaders(url);
@@ -35,39 +72,47 @@ const fetchUrl = async (url: string, options: FetchOptions): Promise<Document> =
     }
   }
 
-  const response = await fetch(targetUrl, {
-    headers: Object.keys(headers).length > 0 ? headers : undefined,
-  });
+  const send = async (targetUrl: string): Promise<Response> => {
+    const res = await fetchImpl(targetUrl, {
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+    });
+    if (!res.ok) throw new Error(`HTTP error! status: ${res.status}`);
+    return res;
+  };
 
-  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+  let response: Response;
+  if (!useProxy) {
+    response = await send(url);
+  } else if (proxyPool && proxyPool.size > 0) {
+    response = await proxyPool.request(url, send);
+  } else {
+    // Note: allorigins.win expects unencoded URL in the query parameter
+    response = await send(`${PROXY_PREFIX}${url}`);
+  }
+
+  return response;
+};
 
+// Fetch a page and decode it with the right charset (UTF-8, GBK/GB18030, Big5...)
+const fetchPage = async (url: string, options: FetchOptions): Promise<FetchedPage> => {
+  const { parseHtml = parseWithDomParser, charsetOverride } = options;
+
+  const response = await fetchResponse(url, options);
   const buffer = await response.arrayBuffer();
-  
-  // 1. Initial decode as UTF-8
-  const utf8Decoder = new TextDecoder('utf-8');
-  let text = utf8Decoder.decode(buffer);
+  const { text, charset } = decodeBody(buffer, response.headers.get('content-type'), charsetOverride);
 
-  // 2. Aggressive GBK Detection
-  // Check for meta charset tags indicating GBK/GB2312, or the presence of replacement characters
-  const hasGBKMeta = /charset=["']?(gb2312|gbk)["']/i.test(text);
-  const hasReplacementChars = text.includes('\uFFFD');
+  return { doc: parseHtml(text), charset };
+};
 
-  if (hasGBKMeta || hasReplacementChars) {
-    try {
-      console.log(`Detected GBK/GB2312 (Meta: ${hasGBKMeta}, Replacement: ${hasReplacementChars}), switching decoder...`);
-      const gbkDecoder = new TextDecoder('gbk');
-      const gbkText = gbkDecoder.decode(buffer);
-      // Only use GBK result if it looks valid
-      if (gbkText && gbkText.length > 0) {
-        text = gbkText;
-      }
-    } catch (e) {
-      console.warn("GBK decode failed, falling back to UTF-8", e);
-    }
-  }
+// Fetch a binary resource (images, PDFs)
+const fetchAsset = async (url: string, options: FetchOptions): Promise<FetchedAsset> => {
+  const response = await fetchResponse(url, options);
+  const data = new Uint8Array(await response.arrayBuffer());
+  return { data, contentType: response.headers.get('content-type') || '' };
+};
 
-  const parser = new DOMParser();
-  return parser.parseFromString(text, 'text/html');
+const fetchUrl = async (url: string, options: FetchOptions): Promise<Document> => {
+  return (await fetchPage(url, options)).doc;
 };
 
 export const generateDateRange = (start: string, end: string): string[] => {
@@ -96,14 +141,17 @@ export const formatUrl = (pattern: string, dateStr: string, page: number = 1): s
     .replace('{PAGE}', page.toString());
 };
 
-export const extractPageNavLinks = (doc: Document, baseUrl: string, selector: string): string[] => {
+/**
+ * Page nodes of an edition with the labels printed on their navigation links ("第02版：新闻")
+ */
+export const extractPageNavEntries = (doc: Document, baseUrl: string, selector: string): { url: string, label: PageLabel | null }[] => {
     // Default to looking for node_*.htm links if selector is generic
     const links = Array.from(doc.querySelectorAll(selector));
-    const uniqueUrls = new Set<string>();
+    const labels = new Map<string, PageLabel | null>();
     const directory = baseUrl.substring(0, baseUrl.lastIndexOf('/') + 1);
     
     // Always add the current page (Node 1) to ensure it's in the list
-    uniqueUrls.add(baseUrl);
+    labels.set(baseUrl, null);
 
     links.forEach((link) => {
         const href = link.getAttribute('href');
@@ -111,17 +159,18 @@ export const extractPageNavLinks = (doc: Document, baseUrl: string, selector: st
         // Filter out non-node links to be safe
         if (href && href.includes('node_') && !href.startsWith('javascript')) {
              const fullUrl = href.startsWith('http') ? href : directory + href;
-             uniqueUrls.add(fullUrl);
+             // Sidebars often link each page twice (thumbnail + text); keep the first real label
+             const label = parsePageLabel(link.textContent || link.getAttribute('title') || '');
+             if (!labels.get(fullUrl)) labels.set(fullUrl, label);
         }
     });
 
     // Convert to array and sort. sorting helps process in order (node_1, node_2...) often
-    return Array.from(uniqueUrls).sort();
+    return Array.from(labels.keys()).sort().map(url => ({ url, label: labels.get(url) || null }));
 }
 
-interface ArticleLink {
-    url: string;
-    title: string;
+export const extractPageNavLinks = (doc: Document, baseUrl: string, selector: string): string[] => {
+    return extractPageNavEntries(doc, baseUrl, selector).map(entry => entry.url);
 }
 
 export const extractArticleLinks = (doc: Document, baseUrl: string, selector: string): ArticleLink[] => {
@@ -169,7 +218,110 @@ const collapseWhitespace = (str: string): string => {
     return str.replace(/\s+/g, ' ').trim();
 };
 
-export const parseArticleContent = (doc: Document, selectors: { title: string, content: string }, fallbackTitle: string = ''): { title: string, content: string } => {
+// Founder stores article photos under .../res/...; spacer and layout gifs live elsewhere
+const FOUNDER_IMAGE_SELECTOR = 'img[src*="/res/"], img[src^="res/"]';
+
+const resolveUrl = (href: string, baseUrl: string): string => {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).href;
+  } catch (e) {
+    return href;
+  }
+};
+
+const isLayoutImage = (img: Element): boolean => {
+  const src = (img.getAttribute('src') || '').toLowerCase();
+  const width = parseInt(img.getAttribute('width') || '', 10);
+  const height = parseInt(img.getAttribute('height') || '', 10);
+  if (width > 0 && width <= 20) return true;
+  if (height > 0 && height <= 20) return true;
+  return /spacer|blank|dot\.gif|line\.gif|\/images?\/(bg|icon|btn)/.test(src);
+};
+
+/**
+ * Find the caption of a photo: <figcaption>, the next table row (Founder puts captions
+ * in the row below the image), a short sibling text, or the alt/title attribute
+ */
+const findImageCaption = (img: Element): string => {
+  const figure = img.closest('figure');
+  const figcaption = figure?.querySelector('figcaption');
+  if (figcaption) return collapseWhitespace(figcaption.textContent || '');
+
+  const row = img.closest('tr');
+  const nextRowText = collapseWhitespace(row?.nextElementSibling?.textContent || '');
+  if (nextRowText && nextRowText.length < 200) return nextRowText;
+
+  const parentText = collapseWhitespace(img.parentElement?.textContent || '');
+  if (parentText && parentText.length < 200) return parentText;
+
+  return collapseWhitespace(img.getAttribute('alt') || img.getAttribute('title') || '');
+};
+
+/**
+ * Collect photos (URL + caption) from the article body, falling back to Founder resource images on the page
+ */
+export const extractArticleImages = (doc: Document, contentEl: Element | null, pageUrl: string = ''): ArticleImage[] => {
+  let imgs = contentEl ? Array.from(contentEl.querySelectorAll('img')) : [];
+  if (imgs.length === 0) {
+    imgs = Array.from(doc.querySelectorAll(FOUNDER_IMAGE_SELECTOR));
+  }
+
+  const seen = new Set<string>();
+  const images: ArticleImage[] = [];
+
+  imgs.forEach(img => {
+    const src = img.getAttribute('src');
+    if (!src || src.startsWith('data:') || isLayoutImage(img)) return;
+    const url = resolveUrl(src, pageUrl);
+    if (seen.has(url)) return;
+    seen.add(url);
+    images.push({ url, caption: findImageCaption(img) });
+  });
+
+  return images;
+};
+
+// URL of the first element matching the selector, from src (img) or href (a, area)
+// Throws when the selector is invalid
+const findLinkedUrl = (doc: Document, selector: string | undefined, pageUrl: string): string | undefined => {
+  if (!selector) return undefined;
+  for (const el of Array.from(doc.querySelectorAll(selector))) {
+    const href = el.getAttribute('src') || el.getAttribute('href');
+    if (href && !href.startsWith('javascript') && !href.startsWith('data:')) {
+      return resolveUrl(href, pageUrl);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Find the full-page scan image and PDF linked from a layout page (node_N.htm)
+ * An invalid selector finds nothing and is reported in errors, for the caller to log.
+ */
+export const extractPageScanLinks = (
+  doc: Document,
+  pageUrl: string,
+  selectors: { image?: string, pdf?: string }
+): { imageUrl?: string, pdfUrl?: string, errors: string[] } => {
+  const errors: string[] = [];
+  const find = (selector: string | undefined) => {
+    try {
+      return findLinkedUrl(doc, selector, pageUrl);
+    } catch (e: any) {
+      errors.push(`Invalid selector "${selector}": ${e.message}`);
+      return undefined;
+    }
+  };
+  return { imageUrl: find(selectors.image), pdfUrl: find(selectors.pdf), errors };
+};
+
+export const parseArticleContent = (
+  doc: Document,
+  selectors: { title: string, content: string },
+  fallbackTitle: string = '',
+  pageUrl: string = ''
+): { title: string, content: string, images: ArticleImage[], meta: ArticleMeta } => {
   
   let titleText = '';
   
@@ -227,39 +379,10 @@ export const parseArticleContent = (doc: Document, selectors: { title: string, c
 
 
   // --- Content Parsing ---
+  // Structure (subheadings, bold lead-ins, lists, tables) is kept as Markdown
   const contentEl = doc.querySelector(selectors.content);
-  let paragraphs: Element[] = [];
-  
-  if (contentEl) {
-     const ps = Array.from(contentEl.querySelectorAll('p'));
-     if (ps.length > 0) {
-         paragraphs = ps;
-     }
-  }
+  const contentText = contentEl ? htmlToMarkdown(contentEl, { baseUrl: pageUrl }) : '';
 
-  let contentText = '';
-  if (paragraphs.length > 0) {
-      contentText = paragraphs.map(p => p.textContent?.trim()).join('\n\n');
-  } else {
-      // Fallback: Just take the text of the container
-      if (contentEl) {
-         const clone = contentEl.cloneNode(true) as HTMLElement;
-         // Replace <br> and </div> with newlines to preserve some structure
-         const brs = clone.querySelectorAll('br');
-         brs.forEach(br => br.replaceWith('\n'));
-         
-         const blockElements = clone.querySelectorAll('div, p, tr');
-         blockElements.forEach(el => {
-             el.after(doc.createTextNode('\n'));
-         });
-
-         // Sometimes text is in <font> or <span> tags directly
-         contentText = clone.textContent || '';
-         // Clean up excessive newlines generated by the replacement above
-         contentText = contentText.replace(/\n\s*\n/g, '\n\n').trim();
-      }
-  }
-  
   // Truncate overly long titles (sometimes parsing grabs the whole body)
   if (titleText.length > 200) {
       titleText = titleText.substring(0, 200) + "...";
@@ -268,7 +391,9 @@ export const parseArticleContent = (doc: Document, selectors: { title: string, c
   return {
     title: titleText,
     content: contentText || '',
+    images: extractArticleImages(doc, contentEl, pageUrl),
+    meta: extractArticleMeta(doc, contentText, introTitle),
   };
 };
 
-export { fetchUrl };
\ No newline at end of file
+export { fetchUrl, fetchPage, fetchAsset };
\ No newline at end of file
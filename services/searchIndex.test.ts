@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Article } from '../types';
+import { SearchIndex, highlightSegments } from './searchIndex';
+
+const article = (id: string, title: string, content: string): Article => ({
+  id,
+  date: '2024-03-01',
+  page: '01',
+  title,
+  content,
+  markdown: '',
+  url: `http://paper.example.cn/html/2024-03/01/content_${id}.htm`,
+  images: [],
+  scrapedAt: '2024-03-01T00:00:00.000Z',
+  status: 'success',
+});
+
+const marked = (text: string, query: string): string[] => {
+  return highlightSegments(text, query).filter(segment => segment.match).map(segment => segment.text);
+};
+
+describe('highlightSegments', () => {
+  it('highlights full-width and case variants the search matched', () => {
+    const text = '全国ＡＩ教育大会在京召开，Ai课程进校园';
+    const index = new SearchIndex();
+    index.sync([article('1', '大会', text)]);
+    expect(index.search('ai教育')?.has('1')).toBe(true);
+    expect(marked(text, 'ai教育')).toEqual(['ＡＩ教育']);
+    expect(marked(text, 'ai')).toEqual(['ＡＩ', 'Ai']);
+  });
+
+  it('keeps the original text around the matches', () => {
+    const segments = highlightSegments('２０２４年招生计划', '2024年');
+    expect(segments).toEqual([{ text: '２０２４年', match: true }, { text: '招生计划', match: false }]);
+  });
+
+  it('maps matches inside characters that normalize to several', () => {
+    expect(marked('株式会社㈱教育', '(株)')).toEqual(['㈱']);
+    expect(marked('𠮷野家的早餐', '早餐')).toEqual(['早餐']);
+  });
+
+  it('returns the text unmarked for an empty query', () => {
+    expect(highlightSegments('教育', ' ')).toEqual([{ text: '教育', match: false }]);
+  });
+});
@@ -0,0 +1,229 @@
+import { Article } from '../types';
+import { enrichmentTerms } from './aiEnrichment';
+import { markdownToText } from './htmlToMarkdown';
+
+/**
+ * In-browser full-text search over collected articles
+ * Chinese has no spaces between words, so the index uses character bigrams: a query matches
+ * an article when all its bigrams are present and the text actually contains it.
+ */
+
+export interface ArticleFilters {
+  query: string;
+  from: string; // YYYY-MM-DD, inclusive; empty = open
+  to: string;
+  page: string; // Page number ("01"); empty = all
+  status: Article['status'] | '';
+  term: string; // Keyword or named entity from the AI enrichment; empty = any
+}
+
+export const EMPTY_FILTERS: ArticleFilters = { query: '', from: '', to: '', page: '', status: '', term: '' };
+
+// Titles count more than body text when ranking, AI keywords/entities and summary in between
+const TITLE_WEIGHT = 3;
+const ENRICHMENT_WEIGHT = 2;
+
+const TOKEN_SPLIT = /[\s\p{P}\p{S}]+/u;
+
+/**
+ * Lowercase and fold full-width forms (ＡＢＣ１２３) so queries match either way
+ */
+export const normalizeForSearch = (text: string): string => text.normalize('NFKC').toLowerCase();
+
+const bigrams = (text: string): string[] => {
+  const grams = new Set<string>();
+  text.split(TOKEN_SPLIT).forEach(run => {
+    const chars = Array.from(run);
+    for (let i = 0; i < chars.length - 1; i++) grams.add(chars[i] + chars[i + 1]);
+  });
+  return Array.from(grams);
+};
+
+/**
+ * Search terms of a query: whitespace separated, all must match
+ */
+export const parseQuery = (query: string): string[] => {
+  return normalizeForSearch(query).split(/\s+/).filter(term => term.length > 0);
+};
+
+const countOccurrences = (text: string, term: string): number => {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) count++;
+  return count;
+};
+
+interface IndexedDoc {
+  article: Article; // The object that was indexed; a new object means the article changed
+  title: string;
+  body: string;
+  enrichment: string; // Summary, keywords and entities
+  grams: string[];
+}
+
+export class SearchIndex {
+  private docs = new Map<string, IndexedDoc>();
+  private postings = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  /**
+   * Bring the index in line with the current article list, re-indexing only what changed
+   */
+  sync(articles: Article[]) {
+    const current = new Set(articles.map(a => a.id));
+    Array.from(this.docs.keys()).forEach(id => {
+      if (!current.has(id)) this.remove(id);
+    });
+    articles.forEach(article => {
+      const doc = this.docs.get(article.id);
+      if (doc && doc.article === article) return;
+      if (doc) this.remove(article.id);
+      this.add(article);
+    });
+  }
+
+  private add(article: Article) {
+    const title = normalizeForSearch(article.title);
+    const body = normalizeForSearch(markdownToText(article.content));
+    const enrichment = article.enrichment
+      ? normalizeForSearch([article.enrichment.summary, ...enrichmentTerms(article.enrichment)].join('\n'))
+      : '';
+    const grams = bigrams(`${title}\n${body}\n${enrichment}`);
+    grams.forEach(gram => {
+      let ids = this.postings.get(gram);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(gram, ids);
+      }
+      ids.add(article.id);
+    });
+    this.docs.set(article.id, { article, title, body, enrichment, grams });
+  }
+
+  private remove(id: string) {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    doc.grams.forEach(gram => {
+      const ids = this.postings.get(gram);
+      if (!ids) return;
+      ids.delete(id);
+      if (ids.size === 0) this.postings.delete(gram);
+    });
+    this.docs.delete(id);
+  }
+
+  // Articles containing every bigram of the term (a superset of the real matches)
+  private candidates(term: string): Iterable<string> {
+    const grams = bigrams(term);
+    // Single characters have no bigram; check every article
+    if (grams.length === 0) return this.docs.keys();
+
+    const lists = grams.map(gram => this.postings.get(gram) || new Set<string>()).sort((a, b) => a.size - b.size);
+    const [smallest, ...rest] = lists;
+    return Array.from(smallest).filter(id => rest.every(list => list.has(id)));
+  }
+
+  /**
+   * Score of every article matching all terms of the query; null for an empty query
+   */
+  search(query: string): Map<string, number> | null {
+    const terms = parseQuery(query);
+    if (terms.length === 0) return null;
+
+    let scores: Map<string, number> | null = null;
+    for (const term of terms) {
+      const termScores = new Map<string, number>();
+      for (const id of this.candidates(term)) {
+        if (scores && !scores.has(id)) continue;
+        const doc = this.docs.get(id) as IndexedDoc;
+        const hits = countOccurrences(doc.title, term) * TITLE_WEIGHT
+          + countOccurrences(doc.enrichment, term) * ENRICHMENT_WEIGHT
+          + countOccurrences(doc.body, term);
+        if (hits > 0) termScores.set(id, (scores ? scores.get(id) || 0 : 0) + hits);
+      }
+      scores = termScores;
+      if (scores.size === 0) break;
+    }
+    return scores;
+  }
+}
+
+const matchesFilters = (article: Article, filters: ArticleFilters): boolean => {
+  if (filters.from && article.date < filters.from) return false;
+  if (filters.to && article.date > filters.to) return false;
+  if (filters.page && !(article.pages || [article.page]).includes(filters.page)) return false;
+  if (filters.status && article.status !== filters.status) return false;
+  if (filters.term) {
+    const term = normalizeForSearch(filters.term.trim());
+    if (!enrichmentTerms(article.enrichment).some(t => normalizeForSearch(t) === term)) return false;
+  }
+  return true;
+};
+
+export const hasActiveFilters = (filters: ArticleFilters): boolean => {
+  return Object.values(filters).some(value => value !== '');
+};
+
+/**
+ * Articles passing the filters; with a query, only matches, best first
+ */
+export const searchArticles = (index: SearchIndex, articles: Article[], filters: ArticleFilters): Article[] => {
+  const filtered = articles.filter(article => matchesFilters(article, filters));
+  const scores = index.search(filters.query);
+  if (!scores) return filtered;
+
+  return filtered
+    .filter(article => scores.has(article.id))
+    .sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0));
+};
+
+/**
+ * Normalized copy of the text, with the source range each of its code units came from
+ * Normalizing can change lengths (ﬁ -> fi, ㈱ -> (株)), so matches are mapped back through the ranges.
+ */
+const normalizeWithOffsets = (text: string): { normalized: string; starts: number[]; ends: number[] } => {
+  let normalized = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const folded = normalizeForSearch(char);
+    for (let i = 0; i < folded.length; i++) {
+      starts.push(index);
+      ends.push(index + char.length);
+    }
+    normalized += folded;
+    index += char.length;
+  }
+  return { normalized, starts, ends };
+};
+
+/**
+ * Split text into plain and matching segments for highlighting
+ * Matching runs on the normalized text, like the search, so full-width and case variants are highlighted too.
+ */
+export const highlightSegments = (text: string, query: string): { text: string; match: boolean }[] => {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const escaped = terms
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(escaped.join('|'), 'g');
+  const { normalized, starts, ends } = normalizeWithOffsets(text);
+
+  const segments: { text: string; match: boolean }[] = [];
+  let last = 0;
+  for (const match of normalized.matchAll(pattern)) {
+    const start = Math.max(starts[match.index || 0], last);
+    const end = ends[(match.index || 0) + match[0].length - 1];
+    if (end <= start) continue;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    last = end;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
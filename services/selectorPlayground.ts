@@ -0,0 +1,107 @@
+import { ArticleLink, ScrapeConfig } from '../types';
+import { FetchedPage, HtmlParser, extractArticleLinks, extractPageNavLinks, fetchPage, parseArticleContent } from './scraperService';
+import { ProxyPool } from './proxyService';
+
+/**
+ * Selector playground
+ * Shows what the configured selectors pick from one node page and one article page, using the same
+ * extraction functions as the scraper, and renders a copy of each page with the matches outlined.
+ */
+
+export interface SelectorCheck {
+  count: number; // Elements the selector matches
+  error?: string; // Set when the selector is invalid
+}
+
+export interface NodePageReport {
+  pageLinks: SelectorCheck & { urls: string[] }; // Page nodes of the edition, this one included
+  articleLinks: SelectorCheck & { links: ArticleLink[] }; // Links with the titles the scraper would use
+}
+
+export interface ArticlePageReport {
+  title: SelectorCheck & { text: string }; // Title parseArticleContent produces (built-in Founder rules come first)
+  content: SelectorCheck & { markdown: string; images: number };
+}
+
+export interface Highlight {
+  selector: string;
+  color: string; // CSS color of the outline
+}
+
+export const checkSelector = (doc: Document, selector: string): SelectorCheck => {
+  if (!selector.trim()) return { count: 0, error: 'Empty selector' };
+  try {
+    return { count: doc.querySelectorAll(selector).length };
+  } catch (e: any) {
+    return { count: 0, error: `Invalid selector: ${e.message}` };
+  }
+};
+
+export const analyzeNodePage = (
+  doc: Document,
+  url: string,
+  config: Pick<ScrapeConfig, 'pageLinkSelector' | 'articleLinkSelector'>
+): NodePageReport => {
+  // The scraper falls back to node_ links when no page link selector is set
+  const pageSelector = config.pageLinkSelector || 'a[href^="node_"]';
+  const pageCheck = checkSelector(doc, pageSelector);
+  const articleCheck = checkSelector(doc, config.articleLinkSelector);
+  return {
+    pageLinks: { ...pageCheck, urls: pageCheck.error ? [] : extractPageNavLinks(doc, url, pageSelector) },
+    articleLinks: { ...articleCheck, links: articleCheck.error ? [] : extractArticleLinks(doc, url, config.articleLinkSelector) },
+  };
+};
+
+export const analyzeArticlePage = (
+  doc: Document,
+  url: string,
+  config: Pick<ScrapeConfig, 'titleSelector' | 'contentSelector'>,
+  linkTitle: string = ''
+): ArticlePageReport => {
+  const titleCheck = checkSelector(doc, config.titleSelector);
+  const contentCheck = checkSelector(doc, config.contentSelector);
+  if (titleCheck.error || contentCheck.error) {
+    return { title: { ...titleCheck, text: '' }, content: { ...contentCheck, markdown: '', images: 0 } };
+  }
+
+  const parsed = parseArticleContent(doc, { title: config.titleSelector, content: config.contentSelector }, linkTitle, url);
+  return {
+    title: { ...titleCheck, text: parsed.title },
+    content: { ...contentCheck, markdown: parsed.content, images: parsed.images.length },
+  };
+};
+
+/**
+ * HTML of the page with the elements each selector matches outlined, for a sandboxed iframe
+ * Relative links and images resolve against the page URL.
+ */
+export const highlightMatches = (doc: Document, url: string, highlights: Highlight[]): string => {
+  const copy = doc.cloneNode(true) as Document;
+  highlights.forEach(({ selector, color }) => {
+    if (checkSelector(copy, selector).error) return;
+    copy.querySelectorAll(selector).forEach(el => {
+      const style = el.getAttribute('style');
+      el.setAttribute('style', `${style ? `${style};` : ''}outline:2px solid ${color};outline-offset:-1px`);
+    });
+  });
+
+  if (url && copy.head && !copy.querySelector('base')) {
+    const base = copy.createElement('base');
+    base.setAttribute('href', url);
+    copy.head.prepend(base);
+  }
+  return `<!DOCTYPE html>${copy.documentElement.outerHTML}`;
+};
+
+/**
+ * Fetch a page the way the scraper would: through the configured proxies and charset override
+ */
+export const fetchPlaygroundPage = (url: string, config: ScrapeConfig, parseHtml?: HtmlParser): Promise<FetchedPage> => {
+  const templates = config.proxyTemplates || [];
+  return fetchPage(url, {
+    useProxy: config.useProxy,
+    proxyPool: config.useProxy && templates.length > 0 ? new ProxyPool(templates) : undefined,
+    charsetOverride: config.charsetOverride,
+    parseHtml,
+  });
+};
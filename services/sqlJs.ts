@@ -0,0 +1,16 @@
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import wasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * sql.js for the browser, with the WASM binary served by Vite; loaded on first use
+ */
+export const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs({ locateFile: () => wasmUrl });
+    // Let a failed load (e.g. offline) be retried
+    sqlJs.catch(() => { sqlJs = null; });
+  }
+  return sqlJs;
+};
@@ -0,0 +1,135 @@
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_CONFIG } from '../constants';
+import { Article, PageScan } from '../types';
+import { Collection, FTS_MODULE, SQLITE_SCHEMA_VERSION, buildSqliteDatabase, ftsQuery, readSqliteDatabase, segmentForFts } from './sqliteExport';
+
+const article = (id: string, date: string, title: string, content: string, fields: Partial<Article> = {}): Article => ({
+  id,
+  date,
+  page: '01',
+  title,
+  content,
+  markdown: `# ${title}\n\n${content}`,
+  url: `http://paper.example.cn/html/${date.slice(0, 7)}/${date.slice(8)}/content_${id}.htm`,
+  images: [],
+  scrapedAt: `${date}T08:00:00.000Z`,
+  status: 'success',
+  ...fields,
+});
+
+const SCAN: PageScan = {
+  date: '2024-03-01',
+  page: '01',
+  nodeUrl: 'http://paper.example.cn/html/2024-03/01/node_1.htm',
+  imageUrl: 'http://paper.example.cn/images/2024-03/01/01/p1.jpg',
+  imageFile: 'pages/01.jpg',
+};
+
+const COLLECTION: Collection = {
+  articles: [
+    article('a1', '2024-03-01', '教育部发布新学期工作要点', '要求各地学校做好**开学**准备，确保学生安全返校。', {
+      pageLabel: '第01版',
+      section: '要闻',
+      pages: ['01', '04'],
+      images: [{ url: 'http://paper.example.cn/images/1.jpg', caption: '开学第一课', file: 'images/1.jpg' }],
+      cleanStatus: 'cleaning',
+      enrichStatus: 'enriched',
+      enrichment: {
+        summary: '教育部部署新学期工作。',
+        keywords: ['新学期', '开学', '安全', '学校', '教育部'],
+        people: [],
+        organizations: ['教育部'],
+        places: ['北京'],
+        model: 'mock',
+        enrichedAt: '2024-03-01T09:00:00.000Z',
+      },
+    }),
+    article('a2', '2024-03-02', '乡村教师待遇持续提高', '全省新招聘乡村教师三千人。', { page: '02', section: '综合' }),
+  ],
+  pages: [{ date: '2024-03-01', page: '01', nodeUrl: SCAN.nodeUrl, label: '第01版', section: '要闻' }],
+  pageScans: [SCAN],
+  config: { ...DEFAULT_CONFIG, baseUrlPattern: 'http://paper.example.cn/html/{YYYY}-{MM}/{DD}/node_{PAGE}.htm' },
+};
+
+let SQL: SqlJsStatic;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+const query = (data: Uint8Array, sql: string, params: (string | number)[] = []): unknown[][] => {
+  const db = new SQL.Database(data);
+  try {
+    const [result] = db.exec(sql, params);
+    return result ? result.values : [];
+  } finally {
+    db.close();
+  }
+};
+
+describe('segmentForFts', () => {
+  it('turns runs of Chinese characters into bigrams and leaves other text alone', () => {
+    expect(segmentForFts('教育部发布').trim()).toBe('教育 育部 部发 发布');
+    expect(segmentForFts('2024年AI教育').trim()).toBe('2024年AI 教育');
+    expect(ftsQuery('教育部  开学')).toBe('"教育 育部" "开学"');
+  });
+});
+
+describe('buildSqliteDatabase', () => {
+  it('writes schema version 3 with an FTS4 table', () => {
+    const data = buildSqliteDatabase(SQL, COLLECTION);
+    expect(query(data, "SELECT value FROM meta WHERE key = 'schema_version'")).toEqual([[String(SQLITE_SCHEMA_VERSION)]]);
+    expect(SQLITE_SCHEMA_VERSION).toBe(3);
+    expect(query(data, "SELECT value FROM meta WHERE key = 'fts_module'")).toEqual([[FTS_MODULE]]);
+    expect(String(query(data, "SELECT sql FROM sqlite_master WHERE name = 'articles_fts'")[0][0])).toMatch(/USING fts4\(title, content, enrichment\)/);
+  });
+
+  it('finds Chinese words with a bigram MATCH', () => {
+    const data = buildSqliteDatabase(SQL, COLLECTION);
+    const ids = (search: string) => query(data, `SELECT a.id FROM articles_fts f JOIN articles a ON a.rowid = f.rowid
+      WHERE articles_fts MATCH ? ORDER BY a.rowid`, [ftsQuery(search)]).map(([id]) => id);
+
+    expect(ids('教育部')).toEqual(['a1']);
+    expect(ids('乡村教师')).toEqual(['a2']);
+    expect(ids('开学准备')).toEqual(['a1']); // Across the Markdown emphasis
+    expect(ids('北京')).toEqual(['a1']); // From the enrichment
+    expect(ids('育部发 安全')).toEqual(['a1']);
+    expect(ids('大学')).toEqual([]);
+  });
+
+  it('fills editions, pages, article terms and settled statuses', () => {
+    const data = buildSqliteDatabase(SQL, COLLECTION);
+    expect(query(data, 'SELECT date, page_count, article_count FROM editions ORDER BY date')).toEqual([
+      ['2024-03-01', 1, 1],
+      ['2024-03-02', 1, 1],
+    ]);
+    expect(query(data, 'SELECT label, scan_image_file FROM pages WHERE date = ?', ['2024-03-01'])).toEqual([['第01版', 'pages/01.jpg']]);
+    expect(query(data, "SELECT kind, term FROM article_terms WHERE kind != 'keyword' ORDER BY kind")).toEqual([
+      ['organization', '教育部'],
+      ['place', '北京'],
+    ]);
+    expect(query(data, 'SELECT id, clean_status, enrich_status FROM articles ORDER BY rowid')).toEqual([
+      ['a1', 'raw', 'enriched'],
+      ['a2', null, null],
+    ]);
+  });
+});
+
+describe('readSqliteDatabase', () => {
+  it('reads back the articles, pages, scans and config', () => {
+    const collection = readSqliteDatabase(SQL, buildSqliteDatabase(SQL, COLLECTION));
+    expect(collection.articles).toEqual([{ ...COLLECTION.articles[0], cleanStatus: 'raw' }, COLLECTION.articles[1]]);
+    expect(collection.pageScans).toEqual([SCAN]);
+    expect(collection.pages).toContainEqual(COLLECTION.pages[0]);
+    expect(collection.config).toEqual(COLLECTION.config);
+  });
+
+  it('refuses a newer schema version', () => {
+    const db = new SQL.Database(buildSqliteDatabase(SQL, COLLECTION));
+    db.run("UPDATE meta SET value = '99' WHERE key = 'schema_version'");
+    const data = db.export();
+    db.close();
+    expect(() => readSqliteDatabase(SQL, data)).toThrow('Unsupported database schema version 99');
+  });
+});
@@ -0,0 +1,318 @@
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { Article, EditionPage, PageScan, ScrapeConfig } from '../types';
+import { settledCleanStatus, settledEnrichStatus, settledTranslateStatus } from './cleanupQueue';
+import { enrichmentTerms } from './aiEnrichment';
+import { markdownToText } from './htmlToMarkdown';
+
+/**
+ * Single-file SQLite database of the collection, built with sql.js (SQLite compiled to WASM)
+ * Tables: editions, pages, articles, article_terms (AI keywords and entities, one row each) and the
+ * full-text table articles_fts. The database can be
+ * loaded back into the app to continue working on the collection.
+ *
+ * SQLite's FTS tokenizers don't split Chinese, so article text is indexed as character bigrams;
+ * search it with ftsQuery() (or a phrase of bigrams: MATCH '"教育 育部"').
+ * articles_fts is always an FTS4 table: the stock sql.js build ships FTS3/4 but not FTS5, and one
+ * module for every file keeps queries portable. FTS5-only syntax (NEAR(), column filters with {}) isn't available.
+ */
+
+// Bump when tables or columns change; older files are still read as far as their columns allow
+// 2: AI enrichment (summary, enrich_status, enrichment_json, article_terms, articles_fts.enrichment)
+// 3: AI translation (translate_status, translation_json)
+export const SQLITE_SCHEMA_VERSION = 3;
+
+/**
+ * Everything the database holds: the articles plus the layout pages and their scans
+ */
+export interface Collection {
+  articles: Article[];
+  pages: EditionPage[];
+  pageScans: PageScan[];
+  config?: ScrapeConfig;
+}
+
+const SCHEMA = `
+CREATE TABLE meta (
+  key TEXT PRIMARY KEY,
+  value TEXT
+);
+CREATE TABLE editions (
+  date TEXT PRIMARY KEY,
+  page_count INTEGER NOT NULL,
+  article_count INTEGER NOT NULL
+);
+CREATE TABLE pages (
+  date TEXT NOT NULL REFERENCES editions(date),
+  page TEXT NOT NULL,
+  node_url TEXT,
+  label TEXT,
+  section TEXT,
+  scan_image_url TEXT,
+  scan_image_file TEXT,
+  scan_pdf_url TEXT,
+  scan_pdf_file TEXT,
+  PRIMARY KEY (date, page)
+);
+CREATE TABLE articles (
+  rowid INTEGER PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  date TEXT NOT NULL REFERENCES editions(date),
+  page TEXT NOT NULL,
+  page_label TEXT,
+  section TEXT,
+  column_name TEXT,
+  title TEXT NOT NULL,
+  byline TEXT,
+  author TEXT,
+  location TEXT,
+  url TEXT NOT NULL,
+  content TEXT NOT NULL,
+  markdown TEXT NOT NULL,
+  sort_order INTEGER,
+  encoding TEXT,
+  encoding_source TEXT,
+  status TEXT NOT NULL,
+  clean_status TEXT,
+  scraped_at TEXT,
+  pages_json TEXT,
+  images_json TEXT,
+  page_scan_json TEXT,
+  fragments_json TEXT,
+  duplicate_of_json TEXT,
+  summary TEXT,
+  enrich_status TEXT,
+  enrichment_json TEXT,
+  translate_status TEXT,
+  translation_json TEXT
+);
+CREATE INDEX articles_date_page ON articles (date, page);
+CREATE TABLE article_terms (
+  article_rowid INTEGER NOT NULL REFERENCES articles(rowid),
+  kind TEXT NOT NULL, -- keyword, person, organization or place
+  term TEXT NOT NULL
+);
+CREATE INDEX article_terms_term ON article_terms (term, kind);
+`;
+
+const HAN_RUN = /\p{Script=Han}{2,}/gu;
+
+/**
+ * Text as indexed in articles_fts: runs of Chinese characters become overlapping bigrams
+ * e.g. "教育部发布" -> "教育 育部 部发 发布"
+ */
+export const segmentForFts = (text: string): string => {
+  return text.replace(HAN_RUN, run => {
+    const chars = Array.from(run);
+    const grams: string[] = [];
+    for (let i = 0; i < chars.length - 1; i++) grams.push(chars[i] + chars[i + 1]);
+    return ` ${grams.join(' ')} `;
+  });
+};
+
+/**
+ * MATCH expression for a search: each whitespace-separated term as a phrase, all required
+ */
+export const ftsQuery = (query: string): string => {
+  return query
+    .split(/\s+/)
+    .filter(term => term)
+    .map(term => `"${segmentForFts(term).trim().replace(/"/g, '""')}"`)
+    .join(' ');
+};
+
+export const FTS_MODULE = 'fts4';
+
+const json = (value: unknown): string | null => (value === undefined ? null : JSON.stringify(value));
+
+/**
+ * Layout pages of the collection: discovered pages, captured scans and pages that only
+ * appear on articles, merged by date and page number
+ */
+const collectPages = (collection: Collection): EditionPage[] => {
+  const pages = new Map<string, EditionPage>();
+  const merge = (page: EditionPage) => {
+    const key = `${page.date}/${page.page}`;
+    const existing = pages.get(key);
+    pages.set(key, existing
+      ? { ...existing, ...Object.fromEntries(Object.entries(page).filter(([, value]) => value !== undefined)) }
+      : page);
+  };
+
+  collection.pages.forEach(merge);
+  collection.articles.forEach(article => merge({
+    date: article.date,
+    page: article.page,
+    label: article.pageLabel,
+    section: article.section,
+  }));
+  collection.pageScans.forEach(scan => merge({ date: scan.date, page: scan.page, nodeUrl: scan.nodeUrl }));
+  return Array.from(pages.values()).sort((a, b) => (a.date + a.page).localeCompare(b.date + b.page));
+};
+
+/**
+ * Build the database file
+ */
+export const buildSqliteDatabase = (SQL: SqlJsStatic, collection: Collection): Uint8Array => {
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA);
+    db.run(`CREATE VIRTUAL TABLE articles_fts USING ${FTS_MODULE}(title, content, enrichment)`);
+
+    db.run('BEGIN');
+    const meta = db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)');
+    [
+      ['schema_version', String(SQLITE_SCHEMA_VERSION)],
+      ['created_at', new Date().toISOString()],
+      ['fts_module', FTS_MODULE],
+      ['fts_note', 'articles_fts indexes Chinese text as character bigrams; search with MATCH \'"教育 育部"\' for 教育部'],
+      ['config', json(collection.config)],
+    ].forEach(row => meta.run(row));
+    meta.free();
+
+    const pages = collectPages(collection);
+    const scans = new Map(collection.pageScans.map(scan => [`${scan.date}/${scan.page}`, scan]));
+    const dates = Array.from(new Set([...pages.map(p => p.date), ...collection.articles.map(a => a.date)])).sort();
+
+    const edition = db.prepare('INSERT INTO editions (date, page_count, article_count) VALUES (?, ?, ?)');
+    dates.forEach(date => edition.run([
+      date,
+      pages.filter(p => p.date === date).length,
+      collection.articles.filter(a => a.date === date).length,
+    ]));
+    edition.free();
+
+    const page = db.prepare(`INSERT INTO pages (date, page, node_url, label, section, scan_image_url, scan_image_file,
+      scan_pdf_url, scan_pdf_file) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+    pages.forEach(p => {
+      const scan = scans.get(`${p.date}/${p.page}`);
+      page.run([
+        p.date, p.page, p.nodeUrl || null, p.label || null, p.section || null,
+        scan?.imageUrl || null, scan?.imageFile || null, scan?.pdfUrl || null, scan?.pdfFile || null,
+      ]);
+    });
+    page.free();
+
+    const article = db.prepare(`INSERT INTO articles (rowid, id, date, page, page_label, section, column_name, title,
+      byline, author, location, url, content, markdown, sort_order, encoding, encoding_source, status, clean_status,
+      scraped_at, pages_json, images_json, page_scan_json, fragments_json, duplicate_of_json, summary, enrich_status,
+      enrichment_json, translate_status, translation_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+    const term = db.prepare('INSERT INTO article_terms (article_rowid, kind, term) VALUES (?, ?, ?)');
+    const fts = db.prepare('INSERT INTO articles_fts (rowid, title, content, enrichment) VALUES (?, ?, ?, ?)');
+    collection.articles.forEach((a, index) => {
+      const rowid = index + 1;
+      article.run([
+        rowid, a.id, a.date, a.page, a.pageLabel || null, a.section || null, a.column || null, a.title,
+        a.byline || null, a.author || null, a.location || null, a.url, a.content, a.markdown,
+        a.order ?? null, a.encoding || null, a.encodingSource || null, a.status, a.cleanStatus ? settledCleanStatus(a.cleanStatus) : null,
+        a.scrapedAt || null, json(a.pages), json(a.images), json(a.pageScan), json(a.fragments), json(a.duplicateOf),
+        a.enrichment?.summary || null, a.enrichStatus ? settledEnrichStatus(a.enrichStatus) : null, json(a.enrichment),
+        a.translateStatus ? settledTranslateStatus(a.translateStatus) : null, json(a.translation),
+      ]);
+      if (a.enrichment) {
+        const { keywords, people, organizations, places } = a.enrichment;
+        const kinds: [string, string[]][] = [['keyword', keywords], ['person', people], ['organization', organizations], ['place', places]];
+        kinds.forEach(([kind, terms]) => terms.forEach(value => term.run([rowid, kind, value])));
+      }
+      const enrichment = a.enrichment ? [a.enrichment.summary, ...enrichmentTerms(a.enrichment)].join('\n') : '';
+      fts.run([rowid, segmentForFts(a.title), segmentForFts(markdownToText(a.content)), segmentForFts(enrichment)]);
+    });
+    article.free();
+    term.free();
+    fts.free();
+    db.run('COMMIT');
+
+    return db.export();
+  } finally {
+    db.close();
+  }
+};
+
+type Row = { [column: string]: SqlValue };
+
+const selectAll = (db: Database, sql: string): Row[] => {
+  const statement = db.prepare(sql);
+  const rows: Row[] = [];
+  while (statement.step()) rows.push(statement.getAsObject());
+  statement.free();
+  return rows;
+};
+
+// Optional column: NULL becomes undefined
+const text = (value: SqlValue): string | undefined => (value === null || value === undefined ? undefined : String(value));
+
+const parsed = <T>(value: SqlValue): T | undefined => (typeof value === 'string' ? JSON.parse(value) as T : undefined);
+
+// Drop undefined fields so loaded articles look like freshly scraped ones
+const compact = <T extends object>(obj: T): T => {
+  return Object.fromEntries(Object.entries(obj).filter(([, value]) => value !== undefined)) as T;
+};
+
+/**
+ * Read a database built by buildSqliteDatabase back into a collection
+ */
+export const readSqliteDatabase = (SQL: SqlJsStatic, data: Uint8Array): Collection => {
+  const db = new SQL.Database(data);
+  try {
+    const meta = new Map(selectAll(db, 'SELECT key, value FROM meta').map(row => [String(row.key), text(row.value)]));
+    const version = Number(meta.get('schema_version'));
+    if (!version || version > SQLITE_SCHEMA_VERSION) {
+      throw new Error(`Unsupported database schema version ${meta.get('schema_version') || '(none)'}`);
+    }
+
+    const articles = selectAll(db, 'SELECT * FROM articles ORDER BY rowid').map(row => compact<Article>({
+      id: String(row.id),
+      date: String(row.date),
+      page: String(row.page),
+      pageLabel: text(row.page_label),
+      section: text(row.section),
+      column: text(row.column_name),
+      title: String(row.title),
+      byline: text(row.byline),
+      author: text(row.author),
+      location: text(row.location),
+      url: String(row.url),
+      content: String(row.content),
+      markdown: String(row.markdown),
+      order: row.sort_order === null ? undefined : Number(row.sort_order),
+      encoding: text(row.encoding),
+      encodingSource: text(row.encoding_source) as Article['encodingSource'],
+      status: String(row.status) as Article['status'],
+      cleanStatus: text(row.clean_status) as Article['cleanStatus'],
+      scrapedAt: text(row.scraped_at),
+      pages: parsed(row.pages_json),
+      images: parsed(row.images_json),
+      pageScan: parsed(row.page_scan_json),
+      fragments: parsed(row.fragments_json),
+      duplicateOf: parsed(row.duplicate_of_json),
+      enrichStatus: text(row.enrich_status) as Article['enrichStatus'],
+      enrichment: parsed(row.enrichment_json),
+      translateStatus: text(row.translate_status) as Article['translateStatus'],
+      translation: parsed(row.translation_json),
+    }));
+
+    const pageRows = selectAll(db, 'SELECT * FROM pages ORDER BY date, page');
+    const pages = pageRows.map(row => compact<EditionPage>({
+      date: String(row.date),
+      page: String(row.page),
+      nodeUrl: text(row.node_url),
+      label: text(row.label),
+      section: text(row.section),
+    }));
+    const pageScans = pageRows
+      .filter(row => row.node_url && (row.scan_image_url || row.scan_pdf_url))
+      .map(row => compact<PageScan>({
+        date: String(row.date),
+        page: String(row.page),
+        nodeUrl: String(row.node_url),
+        imageUrl: text(row.scan_image_url),
+        imageFile: text(row.scan_image_file),
+        pdfUrl: text(row.scan_pdf_url),
+        pdfFile: text(row.scan_pdf_file),
+      }));
+
+    return { articles, pages, pageScans, config: parsed(meta.get('config') ?? null) };
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,69 @@
+import { Article } from '../types';
+import {
+  ExportFile,
+  articleFileName,
+  groupArticlesByDate,
+  renderArticleInfoLine,
+  renderFrontmatter,
+  renderImagesMarkdown,
+} from './exportService';
+import { sourceParagraphs } from './aiTranslation';
+
+/**
+ * Markdown export of AI translations
+ * translated: the translation only; bilingual: each source paragraph followed by its translation
+ * as a blockquote. Same folders and file names as the Markdown export; untranslated articles are left out.
+ */
+
+export type TranslationExportMode = 'translated' | 'bilingual';
+
+const blockquote = (text: string): string => text.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+
+const withImages = (body: string, article: Article): string => {
+  const imagesMd = renderImagesMarkdown(article.images);
+  return imagesMd ? `${body}\n\n${imagesMd}` : body;
+};
+
+/**
+ * The translated article: translated title, date/page line, translated body and photos
+ */
+export const renderTranslatedMarkdown = (article: Article): string => {
+  const translation = article.translation;
+  if (!translation) return '';
+  return withImages(`# ${translation.title}\n\n${renderArticleInfoLine(article)}\n\n${translation.paragraphs.join('\n\n')}`, article);
+};
+
+/**
+ * Source and translation, paragraph by paragraph
+ * Paragraphs without a counterpart (the source changed after translating) are kept on their own.
+ */
+export const renderBilingualMarkdown = (article: Article): string => {
+  const translation = article.translation;
+  if (!translation) return '';
+  const source = sourceParagraphs(article.content);
+  const count = Math.max(source.length, translation.paragraphs.length);
+  const pairs = Array.from({ length: count }, (_, index) => {
+    const translated = translation.paragraphs[index];
+    return [source[index], translated && blockquote(translated)].filter(part => part).join('\n\n');
+  });
+  return withImages(`# ${article.title}\n\n*${translation.title}*\n\n${renderArticleInfoLine(article)}\n\n${pairs.join('\n\n')}`, article);
+};
+
+/**
+ * One folder per date with a Markdown file per translated article
+ */
+export const buildTranslationExport = (articles: Article[], mode: TranslationExportMode): ExportFile[] => {
+  const render = mode === 'bilingual' ? renderBilingualMarkdown : renderTranslatedMarkdown;
+  const files: ExportFile[] = [];
+  const articlesByDate = groupArticlesByDate(articles);
+
+  Object.keys(articlesByDate).sort().forEach(date => {
+    // Numbered among all of the date's articles, so names match the Markdown export
+    articlesByDate[date].forEach((article, index) => {
+      if (!article.translation) return;
+      files.push({ path: `${date}/${articleFileName(article, index)}`, content: `${renderFrontmatter(article)}\n${render(article)}` });
+    });
+  });
+
+  return files;
+};
@@ -8,6 +8,7 @@ export interface ScrapeConfig {
   contentSelector: string; // CSS selector to find the body content
   titleSelector: string; // CSS selector for title
   useProxy: boolean; // Whether to use a CORS proxy
+  proxyTemplates?: string[]; // Proxy backends tried in order: prefix style or containing {url}
   delayMs: number; // Base delay between requests (will be randomized)
   minDelay?: number; // Minimum random delay between requests (ms)
   maxDelay?: number; // Maximum random delay between requests (ms)
@@ -24,19 +25,240 @@ export interface ScrapeConfig {
   // Anti-bot: Request Randomization
   enableRandomUserAgent?: boolean; // Randomize User-Agent header
   randomizeHeaders?: boolean; // Add randomized browser-like headers
+
+  // Images
+  downloadImages?: boolean; // Download article photos so exports work offline
+
+  // Deduplication
+  duplicateHandling?: DuplicateHandling; // What to do with articles already seen in earlier runs
+
+  // Continuations (转第X版 / 上接第X版)
+  mergeContinuations?: boolean; // Join stories continued on another page into one article
+  exportContinuationFragments?: boolean; // Export the per-page pieces of merged stories as separate files
+
+  // Page scans
+  downloadPageScans?: boolean; // Save each layout page's full-page image and PDF
+  pageImageSelector?: string; // CSS selector for the page scan (img src or link href) on a node page
+  pagePdfSelector?: string; // CSS selector for the page PDF link on a node page
+
+  // Encoding
+  charsetOverride?: string; // Force an encoding (e.g. 'gb18030', 'big5') when a site declares the wrong one; empty = auto
+
+  // Concurrency
+  enableConcurrency?: boolean; // Fetch pages and dates in parallel through a per-host worker pool
+  maxConcurrentPerHost?: number; // Maximum in-flight requests per host
+  minHostSpacingMs?: number; // Minimum time between request starts on the same host (ms)
+
+  // AI
+  llmProvider?: LlmProviderId; // Model backend for AI features
+  llmModel?: string; // Model name; empty = provider default
+  llmBaseUrl?: string; // Base URL of an OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  cleanupConcurrency?: number; // Articles cleaned in parallel
+  cleanupRequestsPerMinute?: number; // Maximum API requests started per minute (0 = unlimited)
+  cleanupMaxRetries?: number; // Retries per article, with exponential backoff
+  cleanupChunkChars?: number; // Longer articles are cleaned in chunks of at most this many characters
+  cleanupPromptTemplate?: string; // Cleanup prompt with {title}, {date}, {page}, {content}; empty = built-in default
+  translationLanguage?: string; // Target language of AI translation, e.g. English
 }
 
-export interface Article {
+/**
+ * gemini: Google Gemini SDK, openai: any OpenAI-compatible chat-completions endpoint (including local
+ * servers), mock: deterministic offline provider for tests
+ */
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+/**
+ * off: no checks, flag: keep duplicates but mark them for review, skip: drop them
+ */
+export type DuplicateHandling = 'off' | 'flag' | 'skip';
+
+/**
+ * Site-specific part of a ScrapeConfig (everything except the date range)
+ */
+export type ProfileConfig = Omit<ScrapeConfig, 'startDate' | 'endDate'>;
+
+export interface SiteProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean; // Shipped presets can be duplicated but not edited
+  config: ProfileConfig;
+}
+
+export interface ArticleImage {
+  url: string; // Absolute source URL
+  caption: string;
+  file?: string; // Path relative to the date folder (images/...) once downloaded
+}
+
+// How the charset of a fetched page was determined
+export type CharsetSource = 'override' | 'bom' | 'header' | 'meta' | 'detected';
+
+/**
+ * Byline and column details parsed from an article page
+ */
+export interface ArticleMeta {
+  byline?: string; // Full byline as printed, e.g. 本报记者 张三 北京报道
+  author?: string; // Reporter name(s), space separated
+  location?: string; // Where the report was filed, e.g. 北京
+  column?: string; // Column (栏目) the article ran under
+}
+
+/**
+ * Label of a layout page from the edition's page navigation, e.g. 第02版：新闻
+ */
+export interface PageLabel {
+  label: string; // Page label as printed, e.g. 第02版
+  section?: string; // Section name (版面名), e.g. 新闻
+}
+
+// Where an article's body stands in the AI cleanup
+export type CleanStatus = 'raw' | 'queued' | 'cleaning' | 'cleaned' | 'failed';
+
+// Where an article stands in the AI enrichment (summary, keywords, entities)
+export type EnrichStatus = 'raw' | 'queued' | 'enriching' | 'enriched' | 'failed';
+
+// Where an article stands in the AI translation
+export type TranslateStatus = 'raw' | 'queued' | 'translating' | 'translated' | 'failed';
+
+/**
+ * Summary, keywords and named entities of an article, as returned by the AI enrichment
+ */
+export interface ArticleEnrichment {
+  summary: string; // 2-3 sentences in Chinese
+  keywords: string[];
+  people: string[];
+  organizations: string[]; // Schools, ministries, companies, ...
+  places: string[];
+  model: string; // Model that produced it
+  enrichedAt: string; // ISO timestamp
+}
+
+/**
+ * AI translation of an article, kept apart from its Markdown
+ * paragraphs[i] translates the i-th paragraph of the article content (see sourceParagraphs).
+ */
+export interface ArticleTranslation {
+  language: string; // Target language, e.g. English
+  title: string;
+  paragraphs: string[];
+  model: string; // Model that produced it
+  translatedAt: string; // ISO timestamp
+}
+
+/**
+ * Token counts reported by the AI provider
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean; // Some counts were estimated because the endpoint reported none
+}
+
+export interface Article extends ArticleMeta {
   id: string;
   date: string;
   page: string;
+  pageLabel?: string; // Printed page label, e.g. 第02版
+  section?: string; // Section name of the page, e.g. 新闻
   title: string;
-  content: string; // Raw HTML or Text
+  content: string; // Article body as Markdown
   markdown: string;
   url: string;
+  order?: number; // Position of the article link on its page, keeps edition order under concurrency
+  encoding?: string; // Charset the article page was decoded with
+  encodingSource?: CharsetSource; // How that charset was determined
+  images?: ArticleImage[]; // Photos with captions found in the article body
+  pageScan?: PageScan; // Scan of the layout page the article appeared on
+  pages?: string[]; // Every page a story continued across pages (转第X版) appeared on
+  fragments?: Article[]; // The original per-page pieces of a merged continuation
+  duplicateOf?: DuplicateMatch; // Set when the article was already seen (duplicateHandling 'flag')
+  scrapedAt?: string; // ISO timestamp of extraction
+  cleanStatus?: CleanStatus; // AI cleanup state; missing = raw
+  cleanError?: string; // Last cleanup error when cleanStatus is 'failed'
+  cleanWarning?: string; // Set when the cleaned text came back much shorter than the original
+  enrichment?: ArticleEnrichment;
+  enrichStatus?: EnrichStatus; // AI enrichment state; missing = raw
+  enrichError?: string; // Last enrichment error when enrichStatus is 'failed'
+  enrichWarning?: string; // Set when only the beginning of a long article was enriched
+  translation?: ArticleTranslation;
+  translateStatus?: TranslateStatus; // AI translation state; missing = raw
+  translateError?: string; // Last translation error when translateStatus is 'failed'
   status: 'pending' | 'success' | 'failed' | 'processing';
 }
 
+/**
+ * Persistent record of an extracted article, used to recognise it in later runs
+ */
+export interface ArticleFingerprint {
+  urlKey: string; // Normalized URL (key)
+  url: string;
+  title: string;
+  date: string;
+  jobId: string; // Job that first extracted the article
+  contentHash: string; // Hash of the normalized text
+  simhash: string; // 64-bit SimHash of the text as 16 hex digits, for near-duplicates
+  seenAt: string;
+}
+
+/**
+ * The earlier article a duplicate matches
+ */
+export interface DuplicateMatch {
+  reason: 'url' | 'content' | 'similar'; // Same normalized URL, identical text, or near-identical text
+  url: string;
+  title: string;
+  date: string;
+  distance?: number; // SimHash Hamming distance for 'similar'
+}
+
+/**
+ * A layout page of an edition as discovered from the page navigation
+ */
+export interface EditionPage {
+  date: string;
+  page: string; // Page number, e.g. "01"
+  nodeUrl?: string;
+  label?: string; // Printed page label, e.g. 第02版
+  section?: string; // Section name, e.g. 新闻
+}
+
+/**
+ * Full-page scan and PDF of one printed layout page
+ */
+export interface PageScan {
+  date: string;
+  page: string; // Page number, e.g. "01"
+  nodeUrl: string;
+  imageUrl?: string;
+  imageFile?: string; // Path relative to the date folder (pages/01.jpg) once downloaded
+  pdfUrl?: string;
+  pdfFile?: string; // pages/01.pdf once downloaded
+}
+
+export interface ArticleLink {
+  url: string;
+  title: string;
+}
+
+/**
+ * Checkpointed scrape job, persisted to IndexedDB so it can be resumed after a reload
+ */
+export interface ScrapeJob {
+  id: string;
+  config: ScrapeConfig; // Snapshot of the configuration the job was started with
+  dates: string[]; // Full date queue
+  completedDates: string[];
+  pageNodes: { [date: string]: string[] }; // Discovered page node URLs per date
+  pageArticles: { [nodeUrl: string]: ArticleLink[] }; // Article links found on each page node
+  pageScans?: { [nodeUrl: string]: PageScan }; // Scans captured per page node (when enabled)
+  pageLabels?: { [nodeUrl: string]: PageLabel }; // Page labels and section names from the page navigation
+  completedUrls: string[]; // Article URLs already extracted (or skipped as empty)
+  articles: Article[];
+  status: 'running' | 'paused' | 'completed' | 'failed';
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface LogEntry {
   id: string;
   timestamp: Date;
@@ -4,4 +4,10 @@ interface ImportMetaEnv {
 
 interface ImportMeta {
   readonly env: ImportMetaEnv
-}
\ No newline at end of file
+}
+
+// Asset imported as its served URL (import wasmUrl from 'x.wasm?url')
+declare module '*?url' {
+  const url: string
+  export default url
+}
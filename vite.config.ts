@@ -1,6 +1,7 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import process from 'node:process';
+import { localProxyPlugin } from './server/localProxy';
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -9,7 +10,8 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
 
   return {
-    plugins: [react()],
+    // localProxyPlugin serves /proxy?url=... so the app can run without a third-party CORS proxy
+    plugins: [react(), localProxyPlugin()],
     root: '.', // Set root to current directory
     build: {
       outDir: 'dist',